@@ -1,47 +1,300 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 pragma solidity >=0.8.7 <0.9.0;
 
-import '@openzeppelin/contracts/access/AccessControl.sol';
+import '@openzeppelin/contracts/utils/Address.sol';
+import '../interfaces/IAggregatorProxy.sol';
 import '../interfaces/IChainlinkRegistry.sol';
-import '../utils/CollectableDust.sol';
+import './ChainlinkRegistryManager.sol';
 
-contract ChainlinkRegistry is AccessControl, CollectableDust, IChainlinkRegistry {
-  bytes32 public constant SUPER_ADMIN_ROLE = keccak256('SUPER_ADMIN_ROLE');
-  bytes32 public constant ADMIN_ROLE = keccak256('ADMIN_ROLE');
+contract ChainlinkRegistry is ChainlinkRegistryStorage, IChainlinkRegistry {
+  using EnumerableSet for EnumerableSet.Bytes32Set;
+  using EnumerableSet for EnumerableSet.AddressSet;
 
-  mapping(bytes32 => AssignedFeed) internal _feeds;
-
-  constructor(address _superAdmin, address[] memory _initialAdmins) {
+  /// @inheritdoc IChainlinkRegistry
+  AggregatorV3Interface public immutable sequencerUptimeFeed;
+  /// @inheritdoc IChainlinkRegistry
+  uint32 public immutable gracePeriod;
+  /// @inheritdoc IChainlinkRegistry
+  IChainlinkRegistryManager public immutable manager;
+
+  constructor(
+    address _superAdmin,
+    address[] memory _initialAdmins,
+    AggregatorV3Interface _sequencerUptimeFeed,
+    uint32 _gracePeriod
+  ) {
     if (_superAdmin == address(0)) revert ZeroAddress();
+    sequencerUptimeFeed = _sequencerUptimeFeed;
+    gracePeriod = _gracePeriod;
+    manager = new ChainlinkRegistryManager();
     // We are setting the super admin role as its own admin so we can transfer it
     _setRoleAdmin(SUPER_ADMIN_ROLE, SUPER_ADMIN_ROLE);
     _setRoleAdmin(ADMIN_ROLE, SUPER_ADMIN_ROLE);
+    _setRoleAdmin(EMERGENCY_ROLE, SUPER_ADMIN_ROLE);
     _setupRole(SUPER_ADMIN_ROLE, _superAdmin);
     for (uint256 i = 0; i < _initialAdmins.length; i++) {
       _setupRole(ADMIN_ROLE, _initialAdmins[i]);
     }
   }
 
+  /// @inheritdoc IChainlinkRegistry
+  function getQueuedFeedsExecutableAt(bytes32 _id) external view returns (uint256) {
+    return _queuedFeeds[_id];
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function hasValidationOverride(address _feed) external view returns (bool) {
+    return _validationOverrides.contains(_feed);
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function getValidationOverrides() external view returns (address[] memory) {
+    return _validationOverrides.values();
+  }
+
   /// @inheritdoc IChainlinkRegistry
   function getAssignedFeed(address _base, address _quote) external view returns (AssignedFeed memory) {
-    return _feeds[_getKey(_base, _quote)];
+    return _getAssignedFeed(_base, _quote);
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function getHeartbeat(address _base, address _quote) external view returns (uint32) {
+    return _feeds[_getKey(_base, _quote)].heartbeat;
   }
 
   /// @inheritdoc IChainlinkRegistry
-  function assignFeeds(Feed[] calldata _feedsToAssign) external onlyRole(ADMIN_ROLE) {
-    for (uint256 i = 0; i < _feedsToAssign.length; i++) {
-      Feed memory _feed = _feedsToAssign[i];
-      _feeds[_getKey(_feed.base, _feed.quote)] = AssignedFeed(AggregatorV2V3Interface(_feed.feed), _isProxy(_feed.feed));
+  function checkSequencer() external view {
+    _checkSequencer();
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function latestRoundDataChecked(address _base, address _quote)
+    external
+    view
+    returns (
+      uint80 _roundId,
+      int256 _answer,
+      uint256 _startedAt,
+      uint256 _updatedAt,
+      uint80 _answeredInRound
+    )
+  {
+    _checkSequencer();
+    AssignedFeed storage _feed = _feeds[_getKey(_base, _quote)];
+    if (address(_feed.feed) == address(0)) revert FeedNotFound();
+    (_roundId, _answer, _startedAt, _updatedAt, _answeredInRound) = _feed.feed.latestRoundData();
+    if (_answer <= 0) revert InvalidAnswer();
+    if (_updatedAt == 0 || _answeredInRound < _roundId) revert IncompleteRound();
+    if (_feed.heartbeat > 0 && _updatedAt + _feed.heartbeat < block.timestamp) revert StalePrice();
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function getFallbackFeeds(address _base, address _quote) external view returns (address[] memory) {
+    return _fallbackFeeds[_getKey(_base, _quote)];
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function getMedianMinSources(address _base, address _quote) external view returns (uint8) {
+    return _medianMinSources[_getKey(_base, _quote)];
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function getIntermediates() external view returns (address[] memory) {
+    return _intermediates;
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function latestRoundDataBatch(Pair[] calldata _pairsToRead) external view returns (RoundDataResult[] memory _results) {
+    _results = new RoundDataResult[](_pairsToRead.length);
+    for (uint256 i = 0; i < _pairsToRead.length; i++) {
+      AggregatorV2V3Interface _feed = _feeds[_getKey(_pairsToRead[i].base, _pairsToRead[i].quote)].feed;
+      if (address(_feed) == address(0)) continue;
+      try _feed.latestRoundData() returns (uint80 _roundId, int256 _answer, uint256 _startedAt, uint256 _updatedAt, uint80 _answeredInRound) {
+        _results[i] = RoundDataResult(true, _roundId, _answer, _startedAt, _updatedAt, _answeredInRound);
+      } catch {}
     }
-    emit FeedsModified(_feedsToAssign);
   }
 
-  function sendDust(
-    address _to,
-    address _token,
-    uint256 _amount
+  /// @inheritdoc IChainlinkRegistry
+  function decimalsBatch(Pair[] calldata _pairsToRead) external view returns (DecimalsResult[] memory _results) {
+    _results = new DecimalsResult[](_pairsToRead.length);
+    for (uint256 i = 0; i < _pairsToRead.length; i++) {
+      AssignedFeed storage _feed = _feeds[_getKey(_pairsToRead[i].base, _pairsToRead[i].quote)];
+      if (address(_feed.feed) == address(0)) continue;
+      if (_feed.decimals > 0) {
+        _results[i] = DecimalsResult(true, _feed.decimals);
+        continue;
+      }
+      try _feed.feed.decimals() returns (uint8 _decimals) {
+        _results[i] = DecimalsResult(true, _decimals);
+      } catch {}
+    }
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function assignedPairsCount() external view returns (uint256) {
+    return _assignedKeys.length();
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function getAssignedPairs(uint256 _offset, uint256 _amount) external view returns (AssignedPair[] memory _assignedPairs) {
+    uint256 _total = _assignedKeys.length();
+    if (_offset >= _total) return _assignedPairs;
+    if (_amount > _total - _offset) _amount = _total - _offset;
+    _assignedPairs = new AssignedPair[](_amount);
+    for (uint256 i = 0; i < _amount; i++) {
+      Pair memory _pair = _pairs[_assignedKeys.at(_offset + i)];
+      _assignedPairs[i] = _toAssignedPair(_pair.base, _pair.quote);
+    }
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function getAssignedPairsForBase(address _base) external view returns (AssignedPair[] memory _assignedPairs) {
+    EnumerableSet.AddressSet storage _quotes = _assignedQuotes[_base];
+    _assignedPairs = new AssignedPair[](_quotes.length());
+    for (uint256 i = 0; i < _assignedPairs.length; i++) {
+      _assignedPairs[i] = _toAssignedPair(_base, _quotes.at(i));
+    }
+  }
+
+  /// @inheritdoc IChainlinkRegistry
+  function getPairsServedByFeed(address _feed) external view returns (Pair[] memory _servedByFeed) {
+    EnumerableSet.Bytes32Set storage _keys = _servedPairs[_feed];
+    _servedByFeed = new Pair[](_keys.length());
+    for (uint256 i = 0; i < _servedByFeed.length; i++) {
+      _servedByFeed[i] = _pairs[_keys.at(i)];
+    }
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function assignFeeds(Feed[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function queueFeeds(Feed[] calldata) external returns (bytes32) {
+    return abi.decode(_delegateToManager(msg.data), (bytes32));
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function executeQueuedFeeds(Feed[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function cancelQueuedFeeds(bytes32) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function removeFeeds(Pair[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function importPairs(PairState[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setAssignmentDelay(uint32) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setValidationOverrides(ValidationOverride[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setHeartbeats(Heartbeat[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setDeviationThresholds(DeviationThreshold[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setFallbackFeeds(FallbackFeeds[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function queueFallbackFeeds(FallbackFeeds[] calldata) external returns (bytes32) {
+    return abi.decode(_delegateToManager(msg.data), (bytes32));
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function executeQueuedFallbackFeeds(FallbackFeeds[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setMedianAggregations(MedianAggregation[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setIntermediates(address[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setInverseSupport(InverseSupport[] calldata) external {
+    _delegateToManager(msg.data);
+  }
+
+  /// @inheritdoc FeedRegistryInterface
+  function proposeFeed(
+    address _base,
+    address _quote,
+    address _feed
   ) external onlyRole(ADMIN_ROLE) {
-    _sendDust(_to, _token, _amount);
+    bytes32 _key = _getKey(_base, _quote);
+    address _currentFeed = address(_feeds[_key].feed);
+    if (_feed == _currentFeed) revert FeedAlreadyAssigned();
+    // Note: proposing the zero address will simply discard the current proposal
+    _proposedFeeds[_key] = AggregatorV2V3Interface(_feed);
+    _proposedAt[_key] = block.timestamp;
+    emit FeedProposed(_base, _quote, _feed, _currentFeed, msg.sender);
+  }
+
+  /// @inheritdoc FeedRegistryInterface
+  function confirmFeed(
+    address _base,
+    address _quote,
+    address _feed
+  ) external onlyRole(ADMIN_ROLE) {
+    bytes32 _key = _getKey(_base, _quote);
+    if (_feed == address(0) || _feed != address(_proposedFeeds[_key])) revert InvalidProposedFeed();
+    if (block.timestamp < _proposedAt[_key] + assignmentDelay) revert AssignmentDelayNotOver();
+    address _previousFeed = address(_feeds[_key].feed);
+    delete _proposedFeeds[_key];
+    delete _proposedAt[_key];
+    uint16 _nextPhaseId = abi.decode(
+      _delegateToManager(abi.encodeWithSelector(ChainlinkRegistryManager.assignConfirmedFeed.selector, _base, _quote, _feed)),
+      (uint16)
+    );
+    emit FeedConfirmed(_base, _quote, _feed, _previousFeed, _nextPhaseId, msg.sender);
+  }
+
+  function _delegateToManager(bytes memory _data) internal returns (bytes memory) {
+    return Address.functionDelegateCall(address(manager), _data);
+  }
+
+  function _getAssignedFeed(address _base, address _quote) internal view returns (AssignedFeed memory _feed) {
+    bytes32 _key = _getKey(_base, _quote);
+    bytes32 _inverseKey = _getKey(_quote, _base);
+    bool _isInverted = address(_feeds[_key].feed) == address(0) && _servesInverse[_inverseKey];
+    _feed = _feeds[_isInverted ? _inverseKey : _key];
+    _feed.isInverted = _isInverted;
+  }
+
+  function _toAssignedPair(address _base, address _quote) internal view returns (AssignedPair memory) {
+    AssignedFeed memory _feed = _getAssignedFeed(_base, _quote);
+    return AssignedPair(_base, _quote, _feed.feed, _feed.isProxy, _feed.isInverted, _feed.decimals, _feed.heartbeat, _feed.deviationThreshold);
   }
 
   function _getAssignedFeedOrFail(address _base, address _quote) internal view returns (AggregatorV2V3Interface) {
@@ -50,18 +303,72 @@ contract ChainlinkRegistry is AccessControl, CollectableDust, IChainlinkRegistry
     return _feed;
   }
 
-  function _isProxy(address _feed) internal view returns (bool) {
-    if (_feed == address(0)) return false;
-    try IAggregatorProxy(_feed).aggregator() returns (AggregatorV2V3Interface) {
-      return true;
-    } catch {
-      return false;
+  function _getRoundFeedOrFail(
+    address _base,
+    address _quote,
+    uint256 _roundId
+  ) internal view returns (AggregatorV2V3Interface) {
+    bytes32 _key = _getKey(_base, _quote);
+    if (_roundId <= type(uint80).max) {
+      (uint16 _phaseId, StoredPhase memory _phase) = _findPhase(_key, uint80(_roundId));
+      if (_phaseId > 0) return _phase.feed;
+    }
+    if (address(_feeds[_key].feed) == address(0)) revert FeedNotFound();
+    revert RoundNotFound();
+  }
+
+  /**
+   * @dev Round ids are not re-encoded by the registry, so they are the same ones that each feed reports. Since two
+   *      different feeds could report overlapping round ids, we revert when a round belongs to the ranges of phases
+   *      with different feeds, instead of guessing which feed reported it. If no phase contains the round, zero is
+   *      returned as the phase id
+   */
+  function _findPhase(bytes32 _key, uint80 _roundId) internal view returns (uint16 _phaseId, StoredPhase memory _phase) {
+    uint16 _currentPhaseId = _currentPhaseIds[_key];
+    for (uint16 _i = _currentPhaseId; _i > 0; _i--) {
+      StoredPhase storage _candidate = _phases[_key][_i];
+      if (
+        address(_candidate.feed) != address(0) &&
+        _candidate.startingRoundId <= _roundId &&
+        (_i == _currentPhaseId || _roundId <= _candidate.endingRoundId)
+      ) {
+        if (_phaseId == 0) {
+          (_phaseId, _phase) = (_i, _candidate);
+        } else if (_candidate.feed != _phase.feed) {
+          revert AmbiguousRound();
+        }
+      }
+    }
+  }
+
+  function _getPhase(bytes32 _key, uint16 _phaseId) internal view returns (StoredPhase memory _phase) {
+    _phase = _phases[_key][_phaseId];
+    if (_phaseId > 0 && _phaseId == _currentPhaseIds[_key]) {
+      // The current phase is still going, so we use the feed's latest round as the ending round
+      _phase.endingRoundId = _getLatestRoundIdOrZero(_phase.feed);
     }
   }
 
+  function _checkSequencer() internal view {
+    if (address(sequencerUptimeFeed) == address(0)) return;
+    (, int256 _answer, uint256 _startedAt, , ) = sequencerUptimeFeed.latestRoundData();
+    // An answer of 1 means that the sequencer is down. Also, on some chains `startedAt` will be zero when the round is invalid
+    if (_answer == 1 || _startedAt == 0) revert SequencerDown();
+    if (block.timestamp - _startedAt <= gracePeriod) revert GracePeriodNotOver();
+  }
+
+  function _getProposedFeedOrFail(address _base, address _quote) internal view returns (AggregatorV2V3Interface) {
+    AggregatorV2V3Interface _feed = _proposedFeeds[_getKey(_base, _quote)];
+    if (address(_feed) == address(0)) revert FeedNotProposed();
+    return _feed;
+  }
+
   /// @inheritdoc FeedRegistryInterface
   function decimals(address _base, address _quote) external view returns (uint8) {
-    return _getAssignedFeedOrFail(_base, _quote).decimals();
+    AssignedFeed storage _feed = _feeds[_getKey(_base, _quote)];
+    if (address(_feed.feed) == address(0)) revert FeedNotFound();
+    // If the decimals couldn't be cached when the feed was assigned, we ask the feed directly
+    return _feed.decimals > 0 ? _feed.decimals : _feed.feed.decimals();
   }
 
   /// @inheritdoc FeedRegistryInterface
@@ -105,7 +412,7 @@ contract ChainlinkRegistry is AccessControl, CollectableDust, IChainlinkRegistry
       uint80
     )
   {
-    return _getAssignedFeedOrFail(_base, _quote).getRoundData(_roundId);
+    return _getRoundFeedOrFail(_base, _quote, _roundId).getRoundData(_roundId);
   }
 
   /// @inheritdoc FeedRegistryInterface
@@ -129,7 +436,7 @@ contract ChainlinkRegistry is AccessControl, CollectableDust, IChainlinkRegistry
     address _quote,
     uint256 _roundId
   ) external view returns (int256) {
-    return _getAssignedFeedOrFail(_base, _quote).getAnswer(_roundId);
+    return _getRoundFeedOrFail(_base, _quote, _roundId).getAnswer(_roundId);
   }
 
   /// @inheritdoc FeedRegistryInterface
@@ -138,12 +445,12 @@ contract ChainlinkRegistry is AccessControl, CollectableDust, IChainlinkRegistry
     address _quote,
     uint256 _roundId
   ) external view returns (uint256) {
-    return _getAssignedFeedOrFail(_base, _quote).getTimestamp(_roundId);
+    return _getRoundFeedOrFail(_base, _quote, _roundId).getTimestamp(_roundId);
   }
 
   /// @inheritdoc FeedRegistryInterface
   function getFeed(address _base, address _quote) external view returns (AggregatorV2V3Interface) {
-    AssignedFeed memory _feed = _feeds[_getKey(_base, _quote)];
+    AssignedFeed storage _feed = _feeds[_getKey(_base, _quote)];
     if (address(_feed.feed) == address(0)) revert FeedNotFound();
     if (_feed.isProxy) {
       return IAggregatorProxy(address(_feed.feed)).aggregator();
@@ -154,94 +461,103 @@ contract ChainlinkRegistry is AccessControl, CollectableDust, IChainlinkRegistry
 
   /// @inheritdoc FeedRegistryInterface
   function getPhaseFeed(
-    address,
-    address,
-    uint16
-  ) external pure returns (AggregatorV2V3Interface) {
-    _throwNotSupported();
+    address _base,
+    address _quote,
+    uint16 _phaseId
+  ) external view returns (AggregatorV2V3Interface) {
+    return _phases[_getKey(_base, _quote)][_phaseId].feed;
   }
 
   /// @inheritdoc FeedRegistryInterface
-  function isFeedEnabled(address) external pure returns (bool) {
-    _throwNotSupported();
+  function isFeedEnabled(address _feed) external view returns (bool) {
+    return _servedPairs[_feed].length() > 0;
   }
 
   /// @inheritdoc FeedRegistryInterface
   function getPhase(
-    address,
-    address,
-    uint16
-  ) external pure returns (Phase memory) {
-    _throwNotSupported();
+    address _base,
+    address _quote,
+    uint16 _phaseId
+  ) external view returns (Phase memory) {
+    StoredPhase memory _phase = _getPhase(_getKey(_base, _quote), _phaseId);
+    return Phase(_phaseId, _phase.startingRoundId, _phase.endingRoundId);
   }
 
   /// @inheritdoc FeedRegistryInterface
   function getRoundFeed(
-    address,
-    address,
-    uint80
-  ) external pure returns (AggregatorV2V3Interface) {
-    _throwNotSupported();
+    address _base,
+    address _quote,
+    uint80 _roundId
+  ) external view returns (AggregatorV2V3Interface) {
+    (, StoredPhase memory _phase) = _findPhase(_getKey(_base, _quote), _roundId);
+    return _phase.feed;
   }
 
   /// @inheritdoc FeedRegistryInterface
   function getPhaseRange(
-    address,
-    address,
-    uint16
-  ) external pure returns (uint80, uint80) {
-    _throwNotSupported();
+    address _base,
+    address _quote,
+    uint16 _phaseId
+  ) external view returns (uint80, uint80) {
+    StoredPhase memory _phase = _getPhase(_getKey(_base, _quote), _phaseId);
+    return (_phase.startingRoundId, _phase.endingRoundId);
   }
 
   /// @inheritdoc FeedRegistryInterface
   function getPreviousRoundId(
-    address,
-    address,
-    uint80
-  ) external pure returns (uint80) {
-    _throwNotSupported();
+    address _base,
+    address _quote,
+    uint80 _roundId
+  ) external view returns (uint80) {
+    bytes32 _key = _getKey(_base, _quote);
+    (uint16 _phaseId, StoredPhase memory _phase) = _findPhase(_key, _roundId);
+    if (_phaseId == 0) return 0;
+    if (_roundId > _phase.startingRoundId) return _roundId - 1;
+    // We are at the beginning of the phase, so we look for the last round of the closest non-empty previous phase
+    while (--_phaseId > 0) {
+      _phase = _phases[_key][_phaseId];
+      if (address(_phase.feed) != address(0) && _phase.endingRoundId >= _phase.startingRoundId) {
+        return _phase.endingRoundId;
+      }
+    }
+    return 0;
   }
 
   /// @inheritdoc FeedRegistryInterface
   function getNextRoundId(
-    address,
-    address,
-    uint80
-  ) external pure returns (uint80) {
-    _throwNotSupported();
-  }
-
-  /// @inheritdoc FeedRegistryInterface
-  function proposeFeed(
-    address,
-    address,
-    address
-  ) external pure {
-    _throwNotSupported();
-  }
-
-  /// @inheritdoc FeedRegistryInterface
-  function confirmFeed(
-    address,
-    address,
-    address
-  ) external pure {
-    _throwNotSupported();
+    address _base,
+    address _quote,
+    uint80 _roundId
+  ) external view returns (uint80) {
+    bytes32 _key = _getKey(_base, _quote);
+    (uint16 _phaseId, ) = _findPhase(_key, _roundId);
+    if (_phaseId == 0) return 0;
+    StoredPhase memory _phase = _getPhase(_key, _phaseId);
+    if (_roundId < _phase.endingRoundId) return _roundId + 1;
+    // We are at the end of the phase, so we look for the first round of the closest non-empty next phase
+    uint16 _currentPhaseId = _currentPhaseIds[_key];
+    while (_phaseId++ < _currentPhaseId) {
+      _phase = _getPhase(_key, _phaseId);
+      if (address(_phase.feed) != address(0) && _phase.endingRoundId >= _phase.startingRoundId) {
+        return _phase.startingRoundId;
+      }
+    }
+    return 0;
   }
 
   /// @inheritdoc FeedRegistryInterface
-  function getProposedFeed(address, address) external pure returns (AggregatorV2V3Interface) {
-    _throwNotSupported();
+  function getProposedFeed(address _base, address _quote) external view returns (AggregatorV2V3Interface) {
+    return _proposedFeeds[_getKey(_base, _quote)];
   }
 
   /// @inheritdoc FeedRegistryInterface
   function proposedGetRoundData(
-    address,
-    address,
-    uint80
+    address _base,
+    address _quote,
+    uint80 _roundId
   )
     external
-    pure
+    view
     returns (
       uint80,
       int256,
@@ -250,13 +566,13 @@ contract ChainlinkRegistry is AccessControl, CollectableDust, IChainlinkRegistry
       uint80
     )
   {
-    _throwNotSupported();
+    return _getProposedFeedOrFail(_base, _quote).getRoundData(_roundId);
   }
 
   /// @inheritdoc FeedRegistryInterface
-  function proposedLatestRoundData(address, address)
+  function proposedLatestRoundData(address _base, address _quote)
     external
-    pure
+    view
     returns (
       uint80,
       int256,
@@ -265,23 +581,11 @@ contract ChainlinkRegistry is AccessControl, CollectableDust, IChainlinkRegistry
       uint80
     )
   {
-    _throwNotSupported();
+    return _getProposedFeedOrFail(_base, _quote).latestRoundData();
   }
 
   /// @inheritdoc FeedRegistryInterface
-  function getCurrentPhaseId(address, address) external pure returns (uint16) {
-    _throwNotSupported();
-  }
-
-  function _getKey(address _base, address _quote) internal pure returns (bytes32) {
-    return keccak256(abi.encodePacked(_base, _quote));
+  function getCurrentPhaseId(address _base, address _quote) external view returns (uint16) {
+    return _currentPhaseIds[_getKey(_base, _quote)];
   }
-
-  function _throwNotSupported() internal pure {
-    revert FunctionNotSupported();
-  }
-}
-
-interface IAggregatorProxy is AggregatorV2V3Interface {
-  function aggregator() external view returns (AggregatorV2V3Interface);
 }
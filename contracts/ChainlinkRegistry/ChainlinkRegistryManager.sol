@@ -0,0 +1,322 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.8.7 <0.9.0;
+
+import '../interfaces/IAggregatorProxy.sol';
+import './ChainlinkRegistryStorage.sol';
+
+/**
+ * @notice Executes the changes to the registry's feeds and configuration. It's only meant to be delegated to by the
+ *         registry, since it works over the registry's storage. Called directly, it will only modify its own storage
+ */
+contract ChainlinkRegistryManager is ChainlinkRegistryStorage {
+  using EnumerableSet for EnumerableSet.Bytes32Set;
+  using EnumerableSet for EnumerableSet.AddressSet;
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function assignFeeds(Feed[] calldata _feedsToAssign) external onlyRole(ADMIN_ROLE) {
+    if (assignmentDelay > 0) revert AssignmentDelayEnabled();
+    _assignFeeds(_feedsToAssign);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function queueFeeds(Feed[] calldata _feedsToQueue) external onlyRole(ADMIN_ROLE) returns (bytes32 _id) {
+    _id = keccak256(abi.encode(_feedsToQueue));
+    if (_queuedFeeds[_id] != 0) revert FeedsAlreadyQueued();
+    uint256 _executableAt = block.timestamp + assignmentDelay;
+    _queuedFeeds[_id] = _executableAt;
+    emit FeedsQueued(_id, _feedsToQueue, _executableAt);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function executeQueuedFeeds(Feed[] calldata _queuedFeedsToExecute) external onlyRole(ADMIN_ROLE) {
+    bytes32 _id = keccak256(abi.encode(_queuedFeedsToExecute));
+    uint256 _executableAt = _queuedFeeds[_id];
+    if (_executableAt == 0) revert FeedsNotQueued();
+    if (block.timestamp < _executableAt) revert AssignmentDelayNotOver();
+    delete _queuedFeeds[_id];
+    _assignFeeds(_queuedFeedsToExecute);
+    emit QueuedFeedsExecuted(_id);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function cancelQueuedFeeds(bytes32 _id) external onlyRole(SUPER_ADMIN_ROLE) {
+    if (_queuedFeeds[_id] == 0) revert FeedsNotQueued();
+    delete _queuedFeeds[_id];
+    emit QueuedFeedsCancelled(_id);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function removeFeeds(Pair[] calldata _pairsToRemove) external onlyRole(EMERGENCY_ROLE) {
+    Feed[] memory _feedsToRemove = new Feed[](_pairsToRemove.length);
+    for (uint256 i = 0; i < _pairsToRemove.length; i++) {
+      _feedsToRemove[i] = Feed(_pairsToRemove[i].base, _pairsToRemove[i].quote, address(0));
+    }
+    _assignFeeds(_feedsToRemove);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function importPairs(PairState[] calldata _pairsToImport) external onlyRole(SUPER_ADMIN_ROLE) {
+    if (assignmentDelay > 0) revert AssignmentDelayEnabled();
+    for (uint256 i = 0; i < _pairsToImport.length; i++) {
+      PairState calldata _pair = _pairsToImport[i];
+      bytes32 _key = _getKey(_pair.base, _pair.quote);
+      _assignFeed(_pair.base, _pair.quote, _pair.feed, false);
+      _feeds[_key].heartbeat = _pair.heartbeat;
+      _feeds[_key].deviationThreshold = _pair.deviationThreshold;
+      _medianMinSources[_key] = _pair.medianMinSources;
+      _fallbackFeeds[_key] = _pair.fallbackFeeds;
+      if (_pair.servesInverse) {
+        _servesInverse[_key] = true;
+        _trackPair(_pair.quote, _pair.base);
+      }
+    }
+    emit PairsImported(_pairsToImport);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setAssignmentDelay(uint32 _delay) external onlyRole(SUPER_ADMIN_ROLE) {
+    assignmentDelay = _delay;
+    emit AssignmentDelayModified(_delay);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setValidationOverrides(ValidationOverride[] calldata _validationOverridesToSet) external onlyRole(ADMIN_ROLE) {
+    for (uint256 i = 0; i < _validationOverridesToSet.length; i++) {
+      ValidationOverride calldata _override = _validationOverridesToSet[i];
+      if (_override.enabled) {
+        _validationOverrides.add(_override.feed);
+      } else {
+        _validationOverrides.remove(_override.feed);
+      }
+    }
+    emit ValidationOverridesModified(_validationOverridesToSet);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setHeartbeats(Heartbeat[] calldata _heartbeatsToSet) external onlyRole(ADMIN_ROLE) {
+    for (uint256 i = 0; i < _heartbeatsToSet.length; i++) {
+      Heartbeat calldata _heartbeat = _heartbeatsToSet[i];
+      _feeds[_getKey(_heartbeat.base, _heartbeat.quote)].heartbeat = _heartbeat.heartbeat;
+    }
+    emit HeartbeatsModified(_heartbeatsToSet);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setDeviationThresholds(DeviationThreshold[] calldata _deviationThresholdsToSet) external onlyRole(ADMIN_ROLE) {
+    for (uint256 i = 0; i < _deviationThresholdsToSet.length; i++) {
+      DeviationThreshold calldata _threshold = _deviationThresholdsToSet[i];
+      _feeds[_getKey(_threshold.base, _threshold.quote)].deviationThreshold = _threshold.deviationThreshold;
+    }
+    emit DeviationThresholdsModified(_deviationThresholdsToSet);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setFallbackFeeds(FallbackFeeds[] calldata _fallbackFeedsToSet) external onlyRole(ADMIN_ROLE) {
+    if (assignmentDelay > 0) revert AssignmentDelayEnabled();
+    _setFallbackFeeds(_fallbackFeedsToSet);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function queueFallbackFeeds(FallbackFeeds[] calldata _fallbackFeedsToQueue) external onlyRole(ADMIN_ROLE) returns (bytes32 _id) {
+    _id = _getQueuedFallbackFeedsId(_fallbackFeedsToQueue);
+    if (_queuedFeeds[_id] != 0) revert FeedsAlreadyQueued();
+    uint256 _executableAt = block.timestamp + assignmentDelay;
+    _queuedFeeds[_id] = _executableAt;
+    emit FallbackFeedsQueued(_id, _fallbackFeedsToQueue, _executableAt);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function executeQueuedFallbackFeeds(FallbackFeeds[] calldata _queuedFallbackFeeds) external onlyRole(ADMIN_ROLE) {
+    bytes32 _id = _getQueuedFallbackFeedsId(_queuedFallbackFeeds);
+    uint256 _executableAt = _queuedFeeds[_id];
+    if (_executableAt == 0) revert FeedsNotQueued();
+    if (block.timestamp < _executableAt) revert AssignmentDelayNotOver();
+    delete _queuedFeeds[_id];
+    _setFallbackFeeds(_queuedFallbackFeeds);
+    emit QueuedFeedsExecuted(_id);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setMedianAggregations(MedianAggregation[] calldata _medianAggregationsToSet) external onlyRole(ADMIN_ROLE) {
+    for (uint256 i = 0; i < _medianAggregationsToSet.length; i++) {
+      MedianAggregation calldata _aggregation = _medianAggregationsToSet[i];
+      _medianMinSources[_getKey(_aggregation.base, _aggregation.quote)] = _aggregation.minSources;
+    }
+    emit MedianAggregationsModified(_medianAggregationsToSet);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setIntermediates(address[] calldata _newIntermediates) external onlyRole(ADMIN_ROLE) {
+    _intermediates = _newIntermediates;
+    emit IntermediatesModified(_newIntermediates);
+  }
+
+  /// @inheritdoc IChainlinkRegistryManager
+  function setInverseSupport(InverseSupport[] calldata _inverseSupport) external onlyRole(ADMIN_ROLE) {
+    for (uint256 i = 0; i < _inverseSupport.length; i++) {
+      InverseSupport calldata _support = _inverseSupport[i];
+      bytes32 _key = _getKey(_support.base, _support.quote);
+      if (_support.enabled) {
+        if (address(_feeds[_key].feed) == address(0)) revert FeedNotFound();
+        if (address(_feeds[_getKey(_support.quote, _support.base)].feed) != address(0)) revert FeedAlreadyAssigned();
+        _servesInverse[_key] = true;
+        _trackPair(_support.quote, _support.base);
+      } else {
+        _disableInverseSupport(_support.base, _support.quote);
+      }
+    }
+    emit InverseSupportModified(_inverseSupport);
+  }
+
+  /**
+   * @notice Assigns a feed that was proposed and confirmed
+   * @dev Called by the registry's `confirmFeed`, once the proposal was checked
+   * @return The id of the new phase
+   */
+  function assignConfirmedFeed(
+    address _base,
+    address _quote,
+    address _feed
+  ) external onlyRole(ADMIN_ROLE) returns (uint16) {
+    return _assignFeed(_base, _quote, _feed, true);
+  }
+
+  function _assignFeeds(Feed[] memory _feedsToAssign) internal {
+    for (uint256 i = 0; i < _feedsToAssign.length; i++) {
+      Feed memory _feed = _feedsToAssign[i];
+      _assignFeed(_feed.base, _feed.quote, _feed.feed, true);
+    }
+    emit FeedsModified(_feedsToAssign);
+  }
+
+  function _assignFeed(
+    address _base,
+    address _quote,
+    address _feed,
+    bool _validate
+  ) internal returns (uint16 _phaseId) {
+    uint8 _decimals;
+    if (_feed != address(0) && (!_validate || _validationOverrides.contains(_feed))) {
+      (, _decimals) = _tryGetDecimals(_feed);
+    } else if (_feed != address(0)) {
+      _decimals = _validateFeed(Feed(_base, _quote, _feed));
+    }
+    bytes32 _key = _getKey(_base, _quote);
+    AssignedFeed storage _assignedFeed = _feeds[_key];
+    AggregatorV2V3Interface _currentFeed = _assignedFeed.feed;
+    _phaseId = _currentPhaseIds[_key];
+    if (address(_currentFeed) != _feed) {
+      // Every time the feed changes, we close the current phase and start a new one
+      if (_phaseId > 0) {
+        _phases[_key][_phaseId].endingRoundId = _getLatestRoundIdOrZero(_currentFeed);
+      }
+      _phaseId++;
+      _currentPhaseIds[_key] = _phaseId;
+      _phases[_key][_phaseId] = StoredPhase(AggregatorV2V3Interface(_feed), _getLatestRoundIdOrZero(AggregatorV2V3Interface(_feed)), 0);
+    }
+    (bool _isProxyFeed, AggregatorV2V3Interface _aggregator) = _isProxy(_feed);
+    // Note: we only update the feed's data, since the heartbeat and deviation threshold belong to the pair
+    _assignedFeed.feed = AggregatorV2V3Interface(_feed);
+    _assignedFeed.isProxy = _isProxyFeed;
+    _assignedFeed.decimals = _decimals;
+    _updateServedPairs(_key, address(_currentFeed), _feed, address(_aggregator));
+    // Assigning a feed (or removing it) always takes precedence over serving the inverse of the inverse pair
+    delete _servesInverse[_getKey(_quote, _base)];
+    if (_feed == address(0)) {
+      _untrackPair(_base, _quote);
+      _disableInverseSupport(_base, _quote);
+      // Without a feed, the pair's fallbacks would end up being used as its main source
+      delete _fallbackFeeds[_key];
+      delete _medianMinSources[_key];
+      if (address(_currentFeed) != address(0)) emit FeedRemoved(_base, _quote, address(_currentFeed));
+    } else {
+      _trackPair(_base, _quote);
+      emit FeedAssigned(_base, _quote, _feed, address(_currentFeed), _isProxyFeed);
+    }
+  }
+
+  function _setFallbackFeeds(FallbackFeeds[] calldata _fallbackFeedsToSet) internal {
+    for (uint256 i = 0; i < _fallbackFeedsToSet.length; i++) {
+      FallbackFeeds calldata _fallback = _fallbackFeedsToSet[i];
+      for (uint256 j = 0; j < _fallback.feeds.length; j++) {
+        address _feed = _fallback.feeds[j];
+        if (!_validationOverrides.contains(_feed)) _validateFeed(Feed(_fallback.base, _fallback.quote, _feed));
+      }
+      _fallbackFeeds[_getKey(_fallback.base, _fallback.quote)] = _fallback.feeds;
+    }
+    emit FallbackFeedsModified(_fallbackFeedsToSet);
+  }
+
+  /// @dev Fallback feeds are queued together with feeds, so we add the selector to make sure that their ids never collide
+  function _getQueuedFallbackFeedsId(FallbackFeeds[] calldata _fallbackFeedsToQueue) internal pure returns (bytes32) {
+    return keccak256(abi.encode(IChainlinkRegistryManager.setFallbackFeeds.selector, _fallbackFeedsToQueue));
+  }
+
+  function _validateFeed(Feed memory _feed) internal view returns (uint8 _decimals) {
+    bool _success;
+    (_success, _decimals) = _tryGetDecimals(_feed.feed);
+    if (!_success) revert InvalidFeed(_feed);
+    bytes memory _result;
+    (_success, _result) = _feed.feed.staticcall(abi.encodeWithSelector(AggregatorV3Interface.latestRoundData.selector));
+    if (!_success || _result.length < 160) revert InvalidFeed(_feed);
+    (, int256 _answer) = abi.decode(_result, (uint80, int256));
+    if (_answer <= 0) revert InvalidFeed(_feed);
+  }
+
+  /// @dev We use low level calls so that EOAs and contracts that return unexpected data are also reported as invalid
+  function _tryGetDecimals(address _feed) internal view returns (bool, uint8) {
+    (bool _success, bytes memory _result) = _feed.staticcall(abi.encodeWithSelector(AggregatorV3Interface.decimals.selector));
+    if (!_success || _result.length < 32 || abi.decode(_result, (uint256)) > type(uint8).max) return (false, 0);
+    return (true, abi.decode(_result, (uint8)));
+  }
+
+  function _disableInverseSupport(address _base, address _quote) internal {
+    bytes32 _key = _getKey(_base, _quote);
+    if (_servesInverse[_key]) {
+      delete _servesInverse[_key];
+      _untrackPair(_quote, _base);
+    }
+  }
+
+  function _trackPair(address _base, address _quote) internal {
+    bytes32 _key = _getKey(_base, _quote);
+    if (_assignedKeys.add(_key)) {
+      _assignedQuotes[_base].add(_quote);
+      _pairs[_key] = Pair(_base, _quote);
+    }
+  }
+
+  function _untrackPair(address _base, address _quote) internal {
+    bytes32 _key = _getKey(_base, _quote);
+    if (_assignedKeys.remove(_key)) {
+      _assignedQuotes[_base].remove(_quote);
+      delete _pairs[_key];
+    }
+  }
+
+  /**
+   * @dev We index both the assigned feed and, when it's a proxy, the aggregator it pointed to at the moment of the assignment.
+   *      This way, both addresses will be reported as enabled
+   */
+  function _updateServedPairs(
+    bytes32 _key,
+    address _previousFeed,
+    address _newFeed,
+    address _newAggregator
+  ) internal {
+    _servedPairs[_previousFeed].remove(_key);
+    _servedPairs[_proxyAggregators[_key]].remove(_key);
+    if (_newFeed != address(0)) _servedPairs[_newFeed].add(_key);
+    if (_newAggregator != address(0)) _servedPairs[_newAggregator].add(_key);
+    _proxyAggregators[_key] = _newAggregator;
+  }
+
+  function _isProxy(address _feed) internal view returns (bool, AggregatorV2V3Interface) {
+    if (_feed == address(0)) return (false, AggregatorV2V3Interface(address(0)));
+    try IAggregatorProxy(_feed).aggregator() returns (AggregatorV2V3Interface _aggregator) {
+      return (true, _aggregator);
+    } catch {
+      return (false, AggregatorV2V3Interface(address(0)));
+    }
+  }
+}
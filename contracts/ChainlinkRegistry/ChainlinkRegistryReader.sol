@@ -0,0 +1,280 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.8.7 <0.9.0;
+
+import '../interfaces/IAggregatorProxy.sol';
+import '../interfaces/IChainlinkRegistryReader.sol';
+
+contract ChainlinkRegistryReader is IChainlinkRegistryReader {
+  // The decimals used to compare answers from feeds with different decimals
+  uint8 internal constant _NORMALIZED_DECIMALS = 18;
+  // The max amount of rounds that will be examined when calculating a time-weighted average
+  uint256 public constant MAX_TWAP_ROUNDS = 50;
+  // The max amount of decimals that can be asked for, so that scaling an answer can't overflow
+  uint8 public constant MAX_PRECISION = 36;
+  /// @inheritdoc IChainlinkRegistryReader
+  IChainlinkRegistry public immutable registry;
+
+  constructor(IChainlinkRegistry _registry) {
+    if (address(_registry) == address(0)) revert ZeroAddress();
+    registry = _registry;
+  }
+
+  /// @inheritdoc IChainlinkRegistryReader
+  function latestRoundDataWithFallback(address _base, address _quote)
+    external
+    view
+    returns (
+      uint80 _roundId,
+      int256 _answer,
+      uint256 _startedAt,
+      uint256 _updatedAt,
+      uint80 _answeredInRound,
+      address _source
+    )
+  {
+    registry.checkSequencer();
+    (address _assigned, uint32 _heartbeat) = _getAssignedFeedAndHeartbeat(_base, _quote);
+    address[] memory _fallbacks = registry.getFallbackFeeds(_base, _quote);
+    if (_assigned == address(0) && _fallbacks.length == 0) revert FeedNotFound();
+    for (uint256 i = 0; i <= _fallbacks.length; i++) {
+      _source = i == 0 ? _assigned : _fallbacks[i - 1];
+      if (_source == address(0)) continue;
+      try AggregatorV3Interface(_source).latestRoundData() returns (
+        uint80 _sourceRoundId,
+        int256 _sourceAnswer,
+        uint256 _sourceStartedAt,
+        uint256 _sourceUpdatedAt,
+        uint80 _sourceAnsweredInRound
+      ) {
+        if (_isFresh(_sourceRoundId, _sourceAnswer, _sourceUpdatedAt, _sourceAnsweredInRound, _heartbeat)) {
+          return (_sourceRoundId, _sourceAnswer, _sourceStartedAt, _sourceUpdatedAt, _sourceAnsweredInRound, _source);
+        }
+      } catch {}
+    }
+    revert NoFreshFeed();
+  }
+
+  /// @inheritdoc IChainlinkRegistryReader
+  function latestMedianAnswer(address _base, address _quote) external view returns (int256 _answer, uint256 _sources) {
+    registry.checkSequencer();
+    uint8 _minSources = registry.getMedianMinSources(_base, _quote);
+    if (_minSources == 0) revert MedianNotEnabled();
+    (address _assigned, uint32 _heartbeat) = _getAssignedFeedAndHeartbeat(_base, _quote);
+    address[] memory _fallbacks = registry.getFallbackFeeds(_base, _quote);
+    int256[] memory _answers = new int256[](_fallbacks.length + 1);
+    for (uint256 i = 0; i <= _fallbacks.length; i++) {
+      address _source = i == 0 ? _assigned : _fallbacks[i - 1];
+      if (_source == address(0)) continue;
+      (bool _success, int256 _normalizedAnswer) = _readNormalizedAnswer(_source, _heartbeat);
+      if (!_success) continue;
+      // We keep the answers sorted as we go, with an insertion sort
+      uint256 j = _sources++;
+      for (; j > 0 && _answers[j - 1] > _normalizedAnswer; j--) {
+        _answers[j] = _answers[j - 1];
+      }
+      _answers[j] = _normalizedAnswer;
+    }
+    if (_sources < _minSources) revert NotEnoughSources();
+    uint256 _middle = _sources / 2;
+    _answer = _sources % 2 == 1 ? _answers[_middle] : (_answers[_middle - 1] + _answers[_middle]) / 2;
+  }
+
+  /// @inheritdoc IChainlinkRegistryReader
+  function twap(
+    address _base,
+    address _quote,
+    uint32 _period
+  ) external view returns (int256 _answer, uint256 _coveredPeriod) {
+    if (_period == 0) revert InvalidPeriod();
+    registry.checkSequencer();
+    AggregatorV3Interface _aggregator = _getAssignedAggregator(_base, _quote);
+    uint256 _start = block.timestamp - _period;
+    (uint80 _roundId, int256 _roundAnswer, , uint256 _updatedAt, ) = _aggregator.latestRoundData();
+    // The round's answer is valid from the moment it was updated, until the next round was updated
+    uint256 _validUntil = block.timestamp;
+    int256 _latestAnswer = _roundAnswer;
+    int256 _weightedSum;
+    for (uint256 _examinedRounds = 1; ; _examinedRounds++) {
+      uint256 _validFrom = _updatedAt > _start ? _updatedAt : _start;
+      _weightedSum += _roundAnswer * int256(_validUntil - _validFrom);
+      _validUntil = _validFrom;
+      if (_validUntil == _start || _roundId <= 1 || _examinedRounds == MAX_TWAP_ROUNDS) break;
+      _roundId--;
+      try _aggregator.getRoundData(_roundId) returns (uint80, int256 _previousAnswer, uint256, uint256 _previousUpdatedAt, uint80) {
+        if (_previousUpdatedAt == 0) break;
+        (_roundAnswer, _updatedAt) = (_previousAnswer, _previousUpdatedAt);
+      } catch {
+        break;
+      }
+    }
+    _coveredPeriod = block.timestamp - _validUntil;
+    // If the latest round was updated in this same block, and no other round could be read, then we just return it
+    _answer = _coveredPeriod == 0 ? _latestAnswer : _weightedSum / int256(_coveredPeriod);
+  }
+
+  /// @inheritdoc IChainlinkRegistryReader
+  function latestPrice(address _base, address _quote)
+    external
+    view
+    returns (
+      int256,
+      uint8,
+      uint256
+    )
+  {
+    AggregatorV3Interface _feed = _getDirectFeed(_base, _quote);
+    if (address(_feed) != address(0)) return _readPrice(_feed);
+    address[] memory _intermediates = registry.getIntermediates();
+    for (uint256 i = 0; i < _intermediates.length; i++) {
+      address _intermediate = _intermediates[i];
+      AggregatorV3Interface _baseFeed = _getDirectFeed(_base, _intermediate);
+      if (address(_baseFeed) == address(0)) continue;
+      AggregatorV3Interface _quoteFeed = _getDirectFeed(_intermediate, _quote);
+      if (address(_quoteFeed) != address(0)) return _derivePrice(_baseFeed, _quoteFeed, false);
+      _quoteFeed = _getDirectFeed(_quote, _intermediate);
+      if (address(_quoteFeed) != address(0)) return _derivePrice(_baseFeed, _quoteFeed, true);
+    }
+    revert FeedNotFound();
+  }
+
+  /// @inheritdoc IChainlinkRegistryReader
+  function latestPriceWithPrecision(
+    address _base,
+    address _quote,
+    uint8 _precision
+  ) external view returns (int256 _answer, uint256 _updatedAt) {
+    if (_precision > MAX_PRECISION) revert InvalidPrecision();
+    IChainlinkRegistryManager.AssignedFeed memory _feed = registry.getAssignedFeed(_base, _quote);
+    if (address(_feed.feed) == address(0)) revert FeedNotFound();
+    uint8 _decimals;
+    (_answer, _decimals, _updatedAt) = _readPrice(_feed.feed);
+    if (_feed.isInverted) {
+      _answer = int256(10**(uint256(_precision) + _decimals)) / _answer;
+    } else if (_precision >= _decimals) {
+      _answer *= int256(10**(_precision - _decimals));
+    } else {
+      _answer /= int256(10**(_decimals - _precision));
+    }
+  }
+
+  /// @inheritdoc IChainlinkRegistryReader
+  function exportPairs(uint256 _offset, uint256 _amount) external view returns (IChainlinkRegistryManager.PairState[] memory _exported) {
+    IChainlinkRegistry.AssignedPair[] memory _assignedPairs = registry.getAssignedPairs(_offset, _amount);
+    uint256 _count;
+    for (uint256 i = 0; i < _assignedPairs.length; i++) {
+      if (!_assignedPairs[i].isInverted) _count++;
+    }
+    _exported = new IChainlinkRegistryManager.PairState[](_count);
+    _count = 0;
+    for (uint256 i = 0; i < _assignedPairs.length; i++) {
+      IChainlinkRegistry.AssignedPair memory _pair = _assignedPairs[i];
+      if (_pair.isInverted) continue;
+      _exported[_count++] = IChainlinkRegistryManager.PairState({
+        base: _pair.base,
+        quote: _pair.quote,
+        feed: address(_pair.feed),
+        heartbeat: _pair.heartbeat,
+        deviationThreshold: _pair.deviationThreshold,
+        medianMinSources: registry.getMedianMinSources(_pair.base, _pair.quote),
+        servesInverse: registry.getAssignedFeed(_pair.quote, _pair.base).isInverted,
+        fallbackFeeds: registry.getFallbackFeeds(_pair.base, _pair.quote)
+      });
+    }
+  }
+
+  /// @inheritdoc IChainlinkRegistryReader
+  function exportConfig() external view returns (RegistryConfig memory) {
+    return RegistryConfig(registry.getIntermediates(), registry.getValidationOverrides(), registry.assignmentDelay());
+  }
+
+  function _getAssignedAggregator(address _base, address _quote) internal view returns (AggregatorV3Interface) {
+    IChainlinkRegistryManager.AssignedFeed memory _feed = registry.getAssignedFeed(_base, _quote);
+    if (address(_feed.feed) == address(0) || _feed.isInverted) revert FeedNotFound();
+    return _feed.isProxy ? IAggregatorProxy(address(_feed.feed)).aggregator() : _feed.feed;
+  }
+
+  function _getAssignedFeedAndHeartbeat(address _base, address _quote) internal view returns (address, uint32) {
+    IChainlinkRegistryManager.AssignedFeed memory _feed = registry.getAssignedFeed(_base, _quote);
+    // When the inverse pair is served, the record belongs to the inverse pair, so we need to ask for the heartbeat
+    if (_feed.isInverted) return (address(0), registry.getHeartbeat(_base, _quote));
+    return (address(_feed.feed), _feed.heartbeat);
+  }
+
+  /// @dev Returns the feed assigned to the pair itself, ignoring the inverse pair's feed
+  function _getDirectFeed(address _base, address _quote) internal view returns (AggregatorV3Interface) {
+    IChainlinkRegistryManager.AssignedFeed memory _feed = registry.getAssignedFeed(_base, _quote);
+    if (_feed.isInverted) return AggregatorV3Interface(address(0));
+    return _feed.feed;
+  }
+
+  function _readPrice(AggregatorV3Interface _feed)
+    internal
+    view
+    returns (
+      int256 _answer,
+      uint8 _decimals,
+      uint256 _updatedAt
+    )
+  {
+    (, _answer, , _updatedAt, ) = _feed.latestRoundData();
+    if (_answer <= 0) revert InvalidAnswer();
+    _decimals = _feed.decimals();
+  }
+
+  /**
+   * @dev Combines `base/intermediate` with either `intermediate/quote` (by multiplying) or `quote/intermediate` (by dividing).
+   *      The result will use the greatest amount of decimals of both feeds
+   */
+  function _derivePrice(
+    AggregatorV3Interface _baseFeed,
+    AggregatorV3Interface _quoteFeed,
+    bool _divide
+  )
+    internal
+    view
+    returns (
+      int256 _answer,
+      uint8 _decimals,
+      uint256 _updatedAt
+    )
+  {
+    (int256 _baseAnswer, uint8 _baseDecimals, uint256 _baseUpdatedAt) = _readPrice(_baseFeed);
+    (int256 _quoteAnswer, uint8 _quoteDecimals, uint256 _quoteUpdatedAt) = _readPrice(_quoteFeed);
+    _decimals = _baseDecimals > _quoteDecimals ? _baseDecimals : _quoteDecimals;
+    _baseAnswer *= int256(10**(_decimals - _baseDecimals));
+    _quoteAnswer *= int256(10**(_decimals - _quoteDecimals));
+    _answer = _divide ? (_baseAnswer * int256(10**_decimals)) / _quoteAnswer : (_baseAnswer * _quoteAnswer) / int256(10**_decimals);
+    _updatedAt = _baseUpdatedAt < _quoteUpdatedAt ? _baseUpdatedAt : _quoteUpdatedAt;
+  }
+
+  function _readNormalizedAnswer(address _feed, uint32 _heartbeat) internal view returns (bool, int256) {
+    try AggregatorV3Interface(_feed).latestRoundData() returns (
+      uint80 _roundId,
+      int256 _answer,
+      uint256,
+      uint256 _updatedAt,
+      uint80 _answeredInRound
+    ) {
+      if (!_isFresh(_roundId, _answer, _updatedAt, _answeredInRound, _heartbeat)) return (false, 0);
+      try AggregatorV3Interface(_feed).decimals() returns (uint8 _decimals) {
+        return (
+          true,
+          _decimals <= _NORMALIZED_DECIMALS
+            ? _answer * int256(10**(_NORMALIZED_DECIMALS - _decimals))
+            : _answer / int256(10**(_decimals - _NORMALIZED_DECIMALS))
+        );
+      } catch {}
+    } catch {}
+    return (false, 0);
+  }
+
+  function _isFresh(
+    uint80 _roundId,
+    int256 _answer,
+    uint256 _updatedAt,
+    uint80 _answeredInRound,
+    uint32 _heartbeat
+  ) internal view returns (bool) {
+    return _answer > 0 && _updatedAt > 0 && _answeredInRound >= _roundId && (_heartbeat == 0 || _updatedAt + _heartbeat >= block.timestamp);
+  }
+}
@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.8.7 <0.9.0;
+
+import '@openzeppelin/contracts/access/AccessControl.sol';
+import '@openzeppelin/contracts/utils/structs/EnumerableSet.sol';
+import '../interfaces/IChainlinkRegistryManager.sol';
+import '../utils/CollectableDust.sol';
+
+/**
+ * @notice The storage shared by the registry and its manager. Since the registry delegates to the manager, both need
+ *         to have the exact same storage layout, so state variables must only be declared here
+ */
+// solhint-disable-next-line max-states-count
+abstract contract ChainlinkRegistryStorage is IChainlinkRegistryManager, AccessControl, CollectableDust {
+  struct StoredPhase {
+    // The feed that was assigned during the phase
+    AggregatorV2V3Interface feed;
+    // The feed's latest round id when the phase started
+    uint80 startingRoundId;
+    // The feed's latest round id when the phase ended (only set once the phase is over)
+    uint80 endingRoundId;
+  }
+
+  bytes32 public constant SUPER_ADMIN_ROLE = keccak256('SUPER_ADMIN_ROLE');
+  bytes32 public constant ADMIN_ROLE = keccak256('ADMIN_ROLE');
+  bytes32 public constant EMERGENCY_ROLE = keccak256('EMERGENCY_ROLE');
+
+  mapping(bytes32 => AssignedFeed) internal _feeds;
+  mapping(bytes32 => AggregatorV2V3Interface) internal _proposedFeeds;
+  mapping(bytes32 => uint16) internal _currentPhaseIds;
+  mapping(bytes32 => mapping(uint16 => StoredPhase)) internal _phases;
+  EnumerableSet.Bytes32Set internal _assignedKeys;
+  mapping(bytes32 => Pair) internal _pairs;
+  mapping(address => EnumerableSet.AddressSet) internal _assignedQuotes;
+  mapping(address => EnumerableSet.Bytes32Set) internal _servedPairs;
+  mapping(bytes32 => address) internal _proxyAggregators;
+  address[] internal _intermediates;
+  mapping(bytes32 => bool) internal _servesInverse;
+  /// @inheritdoc IChainlinkRegistryManager
+  uint32 public assignmentDelay;
+  mapping(bytes32 => uint256) internal _queuedFeeds;
+  mapping(bytes32 => uint256) internal _proposedAt;
+  EnumerableSet.AddressSet internal _validationOverrides;
+  mapping(bytes32 => address[]) internal _fallbackFeeds;
+  mapping(bytes32 => uint8) internal _medianMinSources;
+
+  function sendDust(
+    address _to,
+    address _token,
+    uint256 _amount
+  ) external onlyRole(ADMIN_ROLE) {
+    _sendDust(_to, _token, _amount);
+  }
+
+  function _getLatestRoundIdOrZero(AggregatorV2V3Interface _feed) internal view returns (uint80) {
+    if (address(_feed) == address(0)) return 0;
+    try _feed.latestRoundData() returns (uint80 _roundId, int256, uint256, uint256, uint80) {
+      return _roundId;
+    } catch {
+      return 0;
+    }
+  }
+
+  function _getKey(address _base, address _quote) internal pure returns (bytes32) {
+    return keccak256(abi.encodePacked(_base, _quote));
+  }
+}
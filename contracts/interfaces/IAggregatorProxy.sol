@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.8.7 <0.9.0;
+
+import '@chainlink/contracts/src/v0.8/interfaces/AggregatorV2V3Interface.sol';
+
+interface IAggregatorProxy is AggregatorV2V3Interface {
+  function aggregator() external view returns (AggregatorV2V3Interface);
+}
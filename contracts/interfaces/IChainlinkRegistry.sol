@@ -2,57 +2,246 @@
 pragma solidity >=0.8.7 <0.9.0;
 
 import '@chainlink/contracts/src/v0.8/interfaces/FeedRegistryInterface.sol';
+import './IChainlinkRegistryManager.sol';
 import './utils/ICollectableDust.sol';
 
-interface IChainlinkRegistry is FeedRegistryInterface, ICollectableDust {
-  /// @notice A Chainlink feed
-  struct Feed {
+interface IChainlinkRegistry is IChainlinkRegistryManager, FeedRegistryInterface, ICollectableDust {
+  /// @notice A pair, together with the feed assigned to it
+  struct AssignedPair {
+    // The base asset address
     address base;
+    // The quote asset address
     address quote;
-    address feed;
-  }
-
-  /// @notice A feed that was assigned
-  struct AssignedFeed {
     // The feed
     AggregatorV2V3Interface feed;
     // Whether the feed is a proxy or the actual aggregator
     bool isProxy;
+    // Whether the feed was assigned to the inverse pair, and its answer needs to be inverted
+    bool isInverted;
+    // The feed's decimals, cached when the feed was assigned (zero if they couldn't be read)
+    uint8 decimals;
+    // The max amount of seconds that can pass between updates (zero if none was configured)
+    uint32 heartbeat;
+    // The price deviation that triggers an update, in parts per million (zero if none was configured)
+    uint32 deviationThreshold;
   }
 
-  /// @notice Thrown when trying to execute a call with a base and quote that don't have a feed assigned
-  error FeedNotFound();
+  /// @notice The result of reading the latest round data of a pair, as part of a batch
+  struct RoundDataResult {
+    // Whether the data could be read. If false, the rest of the fields will be zero-ed
+    bool success;
+    uint80 roundId;
+    int256 answer;
+    uint256 startedAt;
+    uint256 updatedAt;
+    uint80 answeredInRound;
+  }
+
+  /// @notice The result of reading the decimals of a pair, as part of a batch
+  struct DecimalsResult {
+    // Whether the decimals could be read. If false, decimals will be zero
+    bool success;
+    uint8 decimals;
+  }
 
   /// @notice Thrown when one of the parameters is a zero address
   error ZeroAddress();
 
+  /// @notice Thrown when trying to read data from a proposed feed, but there is no proposal for the given base and quote
+  error FeedNotProposed();
+
+  /// @notice Thrown when trying to confirm a feed that doesn't match the one proposed for the given base and quote
+  error InvalidProposedFeed();
+
+  /// @notice Thrown when the feed's latest answer is older than the heartbeat configured for the pair
+  error StalePrice();
+
+  /// @notice Thrown when the feed's latest answer is zero or negative
+  error InvalidAnswer();
+
+  /// @notice Thrown when the feed's latest round hasn't been completed
+  error IncompleteRound();
+
+  /// @notice Thrown when trying to read a round that doesn't belong to any of the pair's phases
+  error RoundNotFound();
+
+  /// @notice Thrown when trying to read a round that belongs to more than one of the pair's phases, with different feeds
+  error AmbiguousRound();
+
+  /// @notice Thrown when the L2 sequencer is reported as down by the sequencer uptime feed
+  error SequencerDown();
+
+  /// @notice Thrown when the L2 sequencer is back up, but the grace period hasn't passed yet
+  error GracePeriodNotOver();
+
   /**
    * @notice Thrown when a function that is not supported is called
    *         We want to implement Chainlink's feed registry interface completely, but some of the functions
    *         don't make sense in our context. Specially those meant for management. So we will implement
    *         those functions, but we will revert when they are called
+   * @dev All functions are supported now, but we keep the error so that reverts from previous deployments can be decoded
    */
   error FunctionNotSupported();
 
   /**
-   * @notice Emitted when fees are modified
-   * @param feeds The feeds that were modified
+   * @notice Returns the contract that executes the changes to the registry's feeds and configuration
+   * @dev All functions from `IChainlinkRegistryManager`, and the assignment that happens when a feed is confirmed,
+   *      are delegated to this contract
+   * @return The manager
+   */
+  function manager() external view returns (IChainlinkRegistryManager);
+
+  /**
+   * @notice Returns the feed that reports whether the L2 sequencer is up or down
+   * @dev Will be the zero address in chains where there is no sequencer to check
+   * @return The sequencer uptime feed
+   */
+  function sequencerUptimeFeed() external view returns (AggregatorV3Interface);
+
+  /**
+   * @notice Returns the amount of seconds that need to pass after the sequencer is back up, before prices are trusted again
+   * @return The grace period, in seconds
+   */
+  function gracePeriod() external view returns (uint32);
+
+  /**
+   * @notice Reverts if the L2 sequencer is down, or if it was restarted recently
+   * @dev Will revert with `SequencerDown` or `GracePeriodNotOver`. It never reverts when there is no sequencer uptime feed
    */
-  event FeedsModified(Feed[] feeds);
+  function checkSequencer() external view;
 
   /**
-   * @notice Returns the assigned feed for a specific quote and base
+   * @notice Returns when the queued feeds with the given id can be executed
+   * @param id The id of the queued feeds
+   * @return The timestamp after which the feeds can be assigned (or zero if they are not queued)
+   */
+  function getQueuedFeedsExecutableAt(bytes32 id) external view returns (uint256);
+
+  /**
+   * @notice Returns the assigned feed for a specific quote and base, together with the pair's configuration
    * @param base The base asset address
    * @param quote The quote asset address
+   * @dev If the inverse pair was assigned and its inverse is supported, then its feed will be returned with `isInverted` set to true.
+   *      The heartbeat and deviation threshold are kept even if the feed is removed
    * @return The assigned feed (or zero-ed if none was assigned)
    */
   function getAssignedFeed(address base, address quote) external view returns (AssignedFeed memory);
 
   /**
-   * @notice Sets or deletes feeds for specific quotes and bases
-   * @dev A feed's address could be set to the zero address to delete a feed
-   *      Can only be set by admins
-   * @param feedsToAssign The feeds to set
+   * @notice Returns the heartbeat configured for a specific quote and base
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @return The max amount of seconds that can pass between updates (or zero if none was configured)
+   */
+  function getHeartbeat(address base, address quote) external view returns (uint32);
+
+  /**
+   * @notice Works the same way as `latestRoundData`, but it will revert if the feed's data doesn't look healthy
+   * @dev Will revert with `StalePrice` if the answer is older than the pair's heartbeat (when one was configured),
+   *      with `InvalidAnswer` if the answer is not positive and with `IncompleteRound` if the round wasn't completed.
+   *      When a sequencer uptime feed is configured, it will also revert with `SequencerDown` or `GracePeriodNotOver`
+   *      if the sequencer is down or it was restarted recently
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @return roundId The round id
+   * @return answer The answer
+   * @return startedAt The timestamp when the round was started
+   * @return updatedAt The timestamp when the round was updated
+   * @return answeredInRound The round id in which the answer was computed
+   */
+  function latestRoundDataChecked(address base, address quote)
+    external
+    view
+    returns (
+      uint80 roundId,
+      int256 answer,
+      uint256 startedAt,
+      uint256 updatedAt,
+      uint80 answeredInRound
+    );
+
+  /**
+   * @notice Returns the feeds that will be tried when a pair's assigned feed can't provide fresh data
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @return The fallback feeds, in the order they will be tried
+   */
+  function getFallbackFeeds(address base, address quote) external view returns (address[] memory);
+
+  /**
+   * @notice Returns the minimum amount of fresh feeds needed to calculate a pair's median answer
+   * @dev The median is calculated over the assigned feed and the fallback feeds
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @return The minimum amount of sources (or zero if the median aggregation is disabled for the pair)
+   */
+  function getMedianMinSources(address base, address quote) external view returns (uint8);
+
+  /**
+   * @notice Returns the denominations that can be used to derive a price, when a pair doesn't have a feed assigned
+   * @return The intermediate denominations, in the order they will be tried
+   */
+  function getIntermediates() external view returns (address[] memory);
+
+  /**
+   * @notice Returns the latest round data for many pairs at once
+   * @dev Unlike `latestRoundData`, this function will not revert if a pair doesn't have a feed assigned or if the
+   *      feed reverts. Instead, the result for that pair will be marked as unsuccessful
+   * @param pairs The pairs to read
+   * @return The results, in the same order as the given pairs
+   */
+  function latestRoundDataBatch(Pair[] calldata pairs) external view returns (RoundDataResult[] memory);
+
+  /**
+   * @notice Returns the decimals for many pairs at once
+   * @dev Unlike `decimals`, this function will not revert if a pair doesn't have a feed assigned or if the
+   *      feed reverts. Instead, the result for that pair will be marked as unsuccessful
+   * @param pairs The pairs to read
+   * @return The results, in the same order as the given pairs
+   */
+  function decimalsBatch(Pair[] calldata pairs) external view returns (DecimalsResult[] memory);
+
+  /**
+   * @notice Returns the amount of pairs that currently have a feed assigned
+   * @return The amount of assigned pairs
+   */
+  function assignedPairsCount() external view returns (uint256);
+
+  /**
+   * @notice Returns a page of the pairs that currently have a feed assigned
+   * @dev The order of the pairs is not guaranteed, and it could change when feeds are removed
+   * @param offset The index of the first pair to return
+   * @param amount The max amount of pairs to return
+   * @return The assigned pairs, together with their feeds
+   */
+  function getAssignedPairs(uint256 offset, uint256 amount) external view returns (AssignedPair[] memory);
+
+  /**
+   * @notice Returns all pairs with the given base that currently have a feed assigned
+   * @param base The base asset address
+   * @return The assigned pairs, together with their feeds
+   */
+  function getAssignedPairsForBase(address base) external view returns (AssignedPair[] memory);
+
+  /**
+   * @notice Returns all pairs that are currently served by the given feed
+   * @dev If a proxy was assigned, then the pair will be reported both for the proxy and for the aggregator it pointed
+   *      to at the moment of the assignment
+   * @param feed The feed's address
+   * @return The pairs served by the feed
+   */
+  function getPairsServedByFeed(address feed) external view returns (Pair[] memory);
+
+  /**
+   * @notice Returns whether the given feed can be assigned without being validated
+   * @param feed The feed's address
+   * @return Whether the feed has a validation override
+   */
+  function hasValidationOverride(address feed) external view returns (bool);
+
+  /**
+   * @notice Returns all feeds that can be assigned without being validated
+   * @return The feeds with a validation override
    */
-  function assignFeeds(Feed[] calldata feedsToAssign) external;
+  function getValidationOverrides() external view returns (address[] memory);
 }
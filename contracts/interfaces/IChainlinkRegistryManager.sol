@@ -0,0 +1,379 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.8.7 <0.9.0;
+
+import '@chainlink/contracts/src/v0.8/interfaces/AggregatorV2V3Interface.sol';
+
+/**
+ * @title The configuration side of the Chainlink registry
+ * @notice Holds the functions that modify the registry's feeds and configuration. They are executed by a separate
+ *         contract, that the registry delegates to, so that the registry's read paths can stay within the contract size limit
+ */
+interface IChainlinkRegistryManager {
+  /// @notice A Chainlink feed
+  struct Feed {
+    address base;
+    address quote;
+    address feed;
+  }
+
+  /// @notice A feed that was assigned
+  struct AssignedFeed {
+    // The feed
+    AggregatorV2V3Interface feed;
+    // Whether the feed is a proxy or the actual aggregator
+    bool isProxy;
+    // Whether the feed was assigned to the inverse pair, and its answer needs to be inverted
+    bool isInverted;
+    // The feed's decimals, cached when the feed was assigned (zero if they couldn't be read)
+    uint8 decimals;
+    // The max amount of seconds that can pass between updates (zero if none was configured)
+    uint32 heartbeat;
+    // The price deviation that triggers an update, in parts per million (zero if none was configured)
+    uint32 deviationThreshold;
+  }
+
+  /// @notice Whether the inverse of an assigned pair should be served
+  struct InverseSupport {
+    // The assigned pair's base asset address
+    address base;
+    // The assigned pair's quote asset address
+    address quote;
+    // Whether `quote/base` should be served by inverting the answer of the `base/quote` feed
+    bool enabled;
+  }
+
+  /// @notice Whether a feed can be assigned without being validated
+  struct ValidationOverride {
+    // The feed's address
+    address feed;
+    // Whether the feed should skip validation when assigned (useful for feeds that are not live yet)
+    bool enabled;
+  }
+
+  /// @notice The max amount of time that can pass between updates of a pair's feed
+  struct Heartbeat {
+    address base;
+    address quote;
+    uint32 heartbeat;
+  }
+
+  /// @notice The price deviation that triggers an update of a pair's feed
+  struct DeviationThreshold {
+    address base;
+    address quote;
+    // In parts per million, so 5000 represents 0.5%
+    uint32 deviationThreshold;
+  }
+
+  /// @notice The feeds to fall back to when a pair's assigned feed can't provide fresh data
+  struct FallbackFeeds {
+    address base;
+    address quote;
+    // The fallback feeds, in the order they should be tried
+    address[] feeds;
+  }
+
+  /// @notice The minimum amount of fresh feeds needed to calculate a pair's median answer
+  struct MedianAggregation {
+    address base;
+    address quote;
+    // Setting it to zero will disable the median aggregation for the pair
+    uint8 minSources;
+  }
+
+  /// @notice A pair's feeds and configuration, as exported from a registry so that they can be imported into another one
+  struct PairState {
+    // The base asset address
+    address base;
+    // The quote asset address
+    address quote;
+    // The assigned feed
+    address feed;
+    // The max amount of seconds that can pass between updates (zero if none was configured)
+    uint32 heartbeat;
+    // The price deviation that triggers an update, in parts per million (zero if none was configured)
+    uint32 deviationThreshold;
+    // The minimum amount of sources needed to calculate the median answer (zero if disabled)
+    uint8 medianMinSources;
+    // Whether `quote/base` is served by inverting the answer of the `base/quote` feed
+    bool servesInverse;
+    // The fallback feeds, in the order they should be tried
+    address[] fallbackFeeds;
+  }
+
+  /// @notice A base and quote pair
+  struct Pair {
+    address base;
+    address quote;
+  }
+
+  /// @notice Thrown when trying to execute a call with a base and quote that don't have a feed assigned
+  error FeedNotFound();
+
+  /// @notice Thrown when trying to propose the feed that is already assigned to the given base and quote
+  error FeedAlreadyAssigned();
+
+  /// @notice Thrown when trying to assign feeds (or fallback feeds) directly, while the assignment delay is enabled
+  error AssignmentDelayEnabled();
+
+  /// @notice Thrown when trying to queue feeds that were already queued
+  error FeedsAlreadyQueued();
+
+  /// @notice Thrown when trying to execute or cancel feeds that were never queued
+  error FeedsNotQueued();
+
+  /// @notice Thrown when trying to execute queued feeds, or confirm a proposed feed, before the assignment delay has passed
+  error AssignmentDelayNotOver();
+
+  /**
+   * @notice Thrown when trying to assign a feed that doesn't respond to `decimals()` and `latestRoundData()`, or
+   *         that reports a zero or negative answer
+   * @param feed The offending feed entry
+   */
+  error InvalidFeed(Feed feed);
+
+  /**
+   * @notice Emitted when fees are modified
+   * @param feeds The feeds that were modified
+   */
+  event FeedsModified(Feed[] feeds);
+
+  /**
+   * @notice Emitted once per pair, when a feed is assigned to it
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @param feed The assigned feed
+   * @param previousFeed The feed that was assigned before (or the zero address if there was none)
+   * @param isProxy Whether the assigned feed was detected as a proxy
+   */
+  event FeedAssigned(address indexed base, address indexed quote, address indexed feed, address previousFeed, bool isProxy);
+
+  /**
+   * @notice Emitted once per pair, when its feed is removed
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @param previousFeed The feed that was removed
+   */
+  event FeedRemoved(address indexed base, address indexed quote, address indexed previousFeed);
+
+  /**
+   * @notice Emitted when the assignment delay is modified
+   * @param delay The new delay, in seconds
+   */
+  event AssignmentDelayModified(uint32 delay);
+
+  /**
+   * @notice Emitted when feeds are queued to be assigned
+   * @param id The id of the queued feeds
+   * @param feeds The feeds that were queued
+   * @param executableAt The timestamp after which the feeds can be assigned
+   */
+  event FeedsQueued(bytes32 id, Feed[] feeds, uint256 executableAt);
+
+  /**
+   * @notice Emitted when queued feeds are assigned
+   * @param id The id of the queued feeds
+   */
+  event QueuedFeedsExecuted(bytes32 id);
+
+  /**
+   * @notice Emitted when fallback feeds are queued to be set
+   * @param id The id of the queued fallback feeds
+   * @param fallbackFeeds The fallback feeds that were queued
+   * @param executableAt The timestamp after which the fallback feeds can be set
+   */
+  event FallbackFeedsQueued(bytes32 id, FallbackFeeds[] fallbackFeeds, uint256 executableAt);
+
+  /**
+   * @notice Emitted when queued feeds are cancelled
+   * @param id The id of the queued feeds
+   */
+  event QueuedFeedsCancelled(bytes32 id);
+
+  /**
+   * @notice Emitted when heartbeats are modified
+   * @param heartbeats The heartbeats that were modified
+   */
+  event HeartbeatsModified(Heartbeat[] heartbeats);
+
+  /**
+   * @notice Emitted when deviation thresholds are modified
+   * @param deviationThresholds The deviation thresholds that were modified
+   */
+  event DeviationThresholdsModified(DeviationThreshold[] deviationThresholds);
+
+  /**
+   * @notice Emitted when fallback feeds are modified
+   * @param fallbackFeeds The fallback feeds that were modified
+   */
+  event FallbackFeedsModified(FallbackFeeds[] fallbackFeeds);
+
+  /**
+   * @notice Emitted when median aggregations are modified
+   * @param medianAggregations The median aggregations that were modified
+   */
+  event MedianAggregationsModified(MedianAggregation[] medianAggregations);
+
+  /**
+   * @notice Emitted when pairs are imported from another registry
+   * @param pairs The pairs that were imported
+   */
+  event PairsImported(PairState[] pairs);
+
+  /**
+   * @notice Emitted when the intermediate denominations are modified
+   * @param intermediates The new intermediate denominations
+   */
+  event IntermediatesModified(address[] intermediates);
+
+  /**
+   * @notice Emitted when the support for inverse pairs is modified
+   * @param inverseSupport The modified support for inverse pairs
+   */
+  event InverseSupportModified(InverseSupport[] inverseSupport);
+
+  /**
+   * @notice Emitted when validation overrides are modified
+   * @param validationOverrides The modified validation overrides
+   */
+  event ValidationOverridesModified(ValidationOverride[] validationOverrides);
+
+  /**
+   * @notice Returns the amount of seconds that need to pass between queueing feeds and assigning them
+   * @dev When the delay is zero, feeds can be assigned directly with `assignFeeds`
+   * @return The assignment delay, in seconds
+   */
+  function assignmentDelay() external view returns (uint32);
+
+  /**
+   * @notice Sets or deletes feeds for specific quotes and bases
+   * @dev A feed's address could be set to the zero address to delete a feed. Deleting a feed also deletes the pair's
+   *      fallback feeds and median aggregation
+   *      Non-zero feeds must respond to `decimals()` and `latestRoundData()` with a positive answer, unless they have a
+   *      validation override. If they don't, the tx will revert with `InvalidFeed`
+   *      Can only be set by admins, and only when the assignment delay is disabled
+   * @param feedsToAssign The feeds to set
+   */
+  function assignFeeds(Feed[] calldata feedsToAssign) external;
+
+  /**
+   * @notice Queues feeds to be assigned once the assignment delay has passed
+   * @dev Can only be called by admins
+   * @param feedsToQueue The feeds to queue
+   * @return id The id of the queued feeds
+   */
+  function queueFeeds(Feed[] calldata feedsToQueue) external returns (bytes32 id);
+
+  /**
+   * @notice Assigns feeds that were queued, once the assignment delay has passed
+   * @dev Can only be called by admins
+   * @param queuedFeeds The feeds that were queued
+   */
+  function executeQueuedFeeds(Feed[] calldata queuedFeeds) external;
+
+  /**
+   * @notice Cancels feeds, or fallback feeds, that were queued
+   * @dev Can only be called by super admins
+   * @param id The id of the queued feeds
+   */
+  function cancelQueuedFeeds(bytes32 id) external;
+
+  /**
+   * @notice Removes the feeds for specific quotes and bases, without any delay
+   * @dev The pairs' fallback feeds and median aggregations are removed too
+   *      Can only be called by those with the emergency role
+   * @param pairsToRemove The pairs whose feeds will be removed
+   */
+  function removeFeeds(Pair[] calldata pairsToRemove) external;
+
+  /**
+   * @notice Imports pairs that were exported from another registry, together with their configuration
+   * @dev Meant to be used to migrate to a new deployment. Since the pairs come from another registry, feeds are not
+   *      validated. Importing a pair will overwrite its current feed and configuration,
+   *      but inverse support is only ever added.
+   *      Can only be called by super admins, and only when the assignment delay is disabled
+   * @param pairs The pairs to import
+   */
+  function importPairs(PairState[] calldata pairs) external;
+
+  /**
+   * @notice Sets the amount of seconds that need to pass between queueing feeds and assigning them
+   * @dev Setting it to zero will allow admins to assign feeds directly again.
+   *      Can only be set by super admins
+   * @param delay The new delay, in seconds
+   */
+  function setAssignmentDelay(uint32 delay) external;
+
+  /**
+   * @notice Allows or disallows feeds to be assigned without being validated
+   * @dev Meant for feeds that are not live yet, and therefore can't report a positive answer
+   *      Can only be set by admins
+   * @param validationOverrides The validation overrides to set
+   */
+  function setValidationOverrides(ValidationOverride[] calldata validationOverrides) external;
+
+  /**
+   * @notice Sets or deletes deviation thresholds for specific quotes and bases
+   * @dev The threshold is informational, and is not enforced by the registry
+   *      Can only be set by admins
+   * @param deviationThresholds The deviation thresholds to set
+   */
+  function setDeviationThresholds(DeviationThreshold[] calldata deviationThresholds) external;
+
+  /**
+   * @notice Sets or deletes heartbeats for specific quotes and bases
+   * @dev A heartbeat could be set to zero to disable staleness checks for the pair
+   *      Can only be set by admins
+   * @param heartbeats The heartbeats to set
+   */
+  function setHeartbeats(Heartbeat[] calldata heartbeats) external;
+
+  /**
+   * @notice Sets or deletes the fallback feeds for specific quotes and bases
+   * @dev An empty list of feeds will delete the pair's fallback feeds. Feeds are validated in the same way as in `assignFeeds`
+   *      Can only be set by admins, and only when the assignment delay is disabled
+   * @param fallbackFeeds The fallback feeds to set
+   */
+  function setFallbackFeeds(FallbackFeeds[] calldata fallbackFeeds) external;
+
+  /**
+   * @notice Queues fallback feeds to be set once the assignment delay has passed
+   * @dev Queued fallback feeds share their ids with queued feeds, so they can be cancelled with `cancelQueuedFeeds`
+   *      Can only be called by admins
+   * @param fallbackFeedsToQueue The fallback feeds to queue
+   * @return id The id of the queued fallback feeds
+   */
+  function queueFallbackFeeds(FallbackFeeds[] calldata fallbackFeedsToQueue) external returns (bytes32 id);
+
+  /**
+   * @notice Sets fallback feeds that were queued, once the assignment delay has passed
+   * @dev Feeds are validated when executed, in the same way as in `setFallbackFeeds`
+   *      Can only be called by admins
+   * @param queuedFallbackFeeds The fallback feeds that were queued
+   */
+  function executeQueuedFallbackFeeds(FallbackFeeds[] calldata queuedFallbackFeeds) external;
+
+  /**
+   * @notice Enables, modifies or disables the median aggregation for specific quotes and bases
+   * @dev Can only be set by admins
+   * @param medianAggregations The median aggregations to set
+   */
+  function setMedianAggregations(MedianAggregation[] calldata medianAggregations) external;
+
+  /**
+   * @notice Sets the denominations that can be used to derive a price, when a pair doesn't have a feed assigned
+   * @dev Can only be set by admins
+   * @param intermediates The intermediate denominations, in the order they should be tried
+   */
+  function setIntermediates(address[] calldata intermediates) external;
+
+  /**
+   * @notice Enables or disables the support for the inverse of assigned pairs
+   * @dev Enabling the support will revert with `FeedNotFound` if the pair doesn't have a feed assigned, and with
+   *      `FeedAlreadyAssigned` if the inverse pair already has its own feed. Assigning a feed to the inverse pair, or
+   *      removing the pair's feed, will disable the support automatically.
+   *      Can only be set by admins
+   * @param inverseSupport The support to set
+   */
+  function setInverseSupport(InverseSupport[] calldata inverseSupport) external;
+}
@@ -0,0 +1,176 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.8.7 <0.9.0;
+
+import './IChainlinkRegistry.sol';
+
+/**
+ * @title A companion to the Chainlink registry, with read paths that combine many feeds
+ * @notice These reads don't fit in the registry itself, so they were moved to a separate contract. All configuration
+ *         is still managed in the registry
+ */
+interface IChainlinkRegistryReader {
+  /// @notice The configuration that applies to the whole registry, instead of a specific pair
+  struct RegistryConfig {
+    // The denominations that can be used to derive a price
+    address[] intermediates;
+    // The feeds that can be assigned without being validated
+    address[] validationOverrides;
+    // The amount of seconds that need to pass between queueing feeds and assigning them
+    uint32 assignmentDelay;
+  }
+
+  /// @notice Thrown when one of the parameters is a zero address
+  error ZeroAddress();
+
+  /// @notice Thrown when trying to read a pair that doesn't have any feeds
+  error FeedNotFound();
+
+  /// @notice Thrown when a feed reports a non positive answer
+  error InvalidAnswer();
+
+  /// @notice Thrown when neither the assigned feed nor any of the fallback feeds could provide fresh data
+  error NoFreshFeed();
+
+  /// @notice Thrown when trying to read the median answer of a pair that doesn't have the median aggregation enabled
+  error MedianNotEnabled();
+
+  /// @notice Thrown when there are less fresh feeds than the minimum needed to calculate the median answer
+  error NotEnoughSources();
+
+  /// @notice Thrown when trying to calculate a time-weighted average over a period of zero seconds
+  error InvalidPeriod();
+
+  /// @notice Thrown when asking for an answer with more decimals than the supported precision
+  error InvalidPrecision();
+
+  /**
+   * @notice Returns the registry that holds the feeds and their configuration
+   * @return The registry
+   */
+  function registry() external view returns (IChainlinkRegistry);
+
+  /**
+   * @notice Returns the latest round data of the first feed that can provide fresh data, starting with the assigned feed
+   *         and then trying the fallback feeds in order
+   * @dev A feed is skipped if it reverts, if its answer is not positive, if its round wasn't completed or if its answer is
+   *      older than the pair's heartbeat (when one was configured). Fallback feeds could report with different decimals,
+   *      so `source` should be used to interpret the answer. A feed assigned to the inverse pair is never used.
+   *      Will revert with `FeedNotFound` if the pair has no feeds, and with `NoFreshFeed` if none of them could provide fresh data.
+   *      When the registry has a sequencer uptime feed, it will also revert with `SequencerDown` or `GracePeriodNotOver`
+   *      if the sequencer is down or it was restarted recently
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @return roundId The round id
+   * @return answer The answer
+   * @return startedAt The timestamp when the round was started
+   * @return updatedAt The timestamp when the round was updated
+   * @return answeredInRound The round id in which the answer was computed
+   * @return source The feed that provided the data
+   */
+  function latestRoundDataWithFallback(address base, address quote)
+    external
+    view
+    returns (
+      uint80 roundId,
+      int256 answer,
+      uint256 startedAt,
+      uint256 updatedAt,
+      uint80 answeredInRound,
+      address source
+    );
+
+  /**
+   * @notice Returns the median of the answers reported by a pair's assigned feed and fallback feeds
+   * @dev Answers are normalized to 18 decimals before the median is calculated, and feeds are dropped if they don't pass
+   *      the same checks as in `latestRoundDataWithFallback`. When there is an even amount of sources, the average of
+   *      the two middle answers is returned.
+   *      Will revert with `MedianNotEnabled` if the pair doesn't have the median aggregation enabled in the registry, and
+   *      with `NotEnoughSources` if there are less fresh feeds than the minimum configured for the pair.
+   *      When the registry has a sequencer uptime feed, it will also revert with `SequencerDown` or `GracePeriodNotOver`
+   *      if the sequencer is down or it was restarted recently
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @return answer The median answer, with 18 decimals
+   * @return sources The amount of feeds that were used to calculate the median
+   */
+  function latestMedianAnswer(address base, address quote) external view returns (int256 answer, uint256 sources);
+
+  /**
+   * @notice Returns the time-weighted average of the answers reported by a pair's assigned feed over the given period
+   * @dev We walk back through the rounds of the underlying aggregator (the proxy's current aggregator, or the feed itself
+   *      when it's not a proxy), so rounds from before the proxy's last aggregator change are not considered.
+   *      If the aggregator doesn't have enough rounds, or the max amount of rounds to examine is reached, the average will cover a shorter
+   *      period, which is reported as `coveredPeriod`.
+   *      Will revert with `FeedNotFound` if the pair doesn't have a feed assigned (the inverse pair's feed is never used),
+   *      and with `InvalidPeriod` if the period is zero.
+   *      When the registry has a sequencer uptime feed, it will also revert with `SequencerDown` or `GracePeriodNotOver`
+   *      if the sequencer is down or it was restarted recently
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @param period The amount of seconds to calculate the average over, counting back from the current block
+   * @return answer The time-weighted average answer, with the feed's decimals
+   * @return coveredPeriod The amount of seconds that the average actually covers
+   */
+  function twap(
+    address base,
+    address quote,
+    uint32 period
+  ) external view returns (int256 answer, uint256 coveredPeriod);
+
+  /**
+   * @notice Returns the latest price for the given pair
+   * @dev If the pair doesn't have a feed assigned in the registry, then the price will be derived by going through one of the intermediate
+   *      denominations. For example, `base/quote` could be calculated as `base/intermediate * intermediate/quote` or as
+   *      `base/intermediate / quote/intermediate`. Will revert with `FeedNotFound` if the price can't be calculated, and
+   *      with `InvalidAnswer` if one of the feeds reports a non positive answer
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @return answer The price
+   * @return priceDecimals The amount of decimals used by the price
+   * @return updatedAt The oldest timestamp of all the feeds that were used to calculate the price
+   */
+  function latestPrice(address base, address quote)
+    external
+    view
+    returns (
+      int256 answer,
+      uint8 priceDecimals,
+      uint256 updatedAt
+    );
+
+  /**
+   * @notice Returns the latest answer for the given pair, using the given amount of decimals
+   * @dev Works both for pairs with a feed assigned, and for pairs that are served by inverting the answer of the inverse pair.
+   *      Will revert with `FeedNotFound` if none of them apply, with `InvalidAnswer` if the feed reports a non positive answer
+   *      and with `InvalidPrecision` if `precision` is greater than `MAX_PRECISION` (36)
+   * @param base The base asset address
+   * @param quote The quote asset address
+   * @param precision The amount of decimals the answer should have
+   * @return answer The answer, with `precision` decimals
+   * @return updatedAt The timestamp when the answer was updated
+   */
+  function latestPriceWithPrecision(
+    address base,
+    address quote,
+    uint8 precision
+  ) external view returns (int256 answer, uint256 updatedAt);
+
+  /**
+   * @notice Exports a page of the registry's assigned pairs, together with their configuration, so that they can be
+   *         imported into another registry with `importPairs`
+   * @dev Pairs that are only served by inverting another pair's feed are not returned on their own. Instead, they are
+   *      reported through `servesInverse` in the pair that holds the feed, so a page could have less entries than `amount`.
+   *      Configuration for pairs that don't have a feed assigned is not exported
+   * @param offset The position of the first assigned pair to export
+   * @param amount The max amount of assigned pairs to examine
+   * @return The exported pairs
+   */
+  function exportPairs(uint256 offset, uint256 amount) external view returns (IChainlinkRegistryManager.PairState[] memory);
+
+  /**
+   * @notice Exports the registry's global configuration, so that it can be set in another registry together with the
+   *         pairs returned by `exportPairs`
+   * @return The registry's configuration
+   */
+  function exportConfig() external view returns (RegistryConfig memory);
+}
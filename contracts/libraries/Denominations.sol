@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.8.7 <0.9.0;
+
+/**
+ * @title The special addresses used to represent assets that are not tokens
+ * @notice Matches Chainlink's Denominations library, with the native gas tokens of the networks we deploy to
+ */
+library Denominations {
+  address public constant ETH = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+  address public constant BTC = 0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB;
+  // On Polygon, the native token can also be used as an ERC20 through this address
+  address public constant MATIC = 0x0000000000000000000000000000000000001010;
+
+  // Fiat currencies follow https://en.wikipedia.org/wiki/ISO_4217
+  address public constant USD = address(840);
+  address public constant GBP = address(826);
+  address public constant EUR = address(978);
+  address public constant JPY = address(392);
+  address public constant KRW = address(410);
+  address public constant CNY = address(156);
+  address public constant AUD = address(36);
+  address public constant CAD = address(124);
+  address public constant CHF = address(756);
+  address public constant ARS = address(32);
+  address public constant PHP = address(608);
+  address public constant NZD = address(554);
+  address public constant SGD = address(702);
+  address public constant NGN = address(566);
+  address public constant ZAR = address(710);
+  address public constant RUB = address(643);
+  address public constant INR = address(356);
+  address public constant BRL = address(986);
+}
@@ -5,13 +5,14 @@ import '@openzeppelin/contracts/token/ERC20/IERC20.sol';
 import '@openzeppelin/contracts/utils/structs/EnumerableSet.sol';
 import '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
 import '../interfaces/utils/ICollectableDust.sol';
+import '../libraries/Denominations.sol';
 
 abstract contract CollectableDust is ICollectableDust {
   using SafeERC20 for IERC20;
   using EnumerableSet for EnumerableSet.AddressSet;
 
   // solhint-disable-next-line private-vars-leading-underscore
-  address private constant PROTOCOL_TOKEN = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+  address private constant PROTOCOL_TOKEN = Denominations.ETH;
   EnumerableSet.AddressSet internal _protocolTokens;
 
   function _addProtocolToken(address _token) internal {
@@ -3,30 +3,45 @@ import { DeployFunction } from '@0xged/hardhat-deploy/types';
 import { bytecode } from '../artifacts/contracts/ChainlinkRegistry/ChainlinkRegistry.sol/ChainlinkRegistry.json';
 import { abi as FeedRegistryAbi } from '../artifacts/@chainlink/contracts/src/v0.8/interfaces/FeedRegistryInterface.sol/FeedRegistryInterface.json';
 import { deployThroughDeterministicFactory } from '@mean-finance/deterministic-factory/utils/deployment';
+import { constants } from 'ethers';
+import { estimateDeploymentGas, REGISTRY_SALT } from '../utils/deployment';
+
+// Chainlink recommends waiting for an hour after the sequencer is back up, before trusting prices again
+const SEQUENCER_GRACE_PERIOD = 60 * 60;
+
+const SEQUENCER_UPTIME_FEEDS: Record<string, string> = {
+  arbitrum: '0xFdB631F5EE196F0ed6FAa767959853A9F217697D',
+  optimism: '0x371EAD81c9102C9BF4874A9075FFFf170F2Ee389',
+};
 
 const deployFunction: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
-  const { deployer, msig } = await hre.getNamedAccounts();
+  const { deployer } = await hre.getNamedAccounts();
+  const network = hre.deployments.getNetworkName();
 
-  if (hre.deployments.getNetworkName() === 'ethereum') {
+  if (network === 'ethereum') {
     // We will use the one operated by chainlink
     await hre.deployments.save('ChainlinkFeedRegistry', {
       abi: FeedRegistryAbi,
       address: '0x47Fb2585D2C56Fe188D0E6ec628a38b74fCeeeDf',
     });
   } else {
+    const sequencerUptimeFeed = SEQUENCER_UPTIME_FEEDS[network];
+    const constructorArgs = {
+      types: ['address', 'address[]', 'address', 'uint32'],
+      // The deployer starts as admin so that feeds can be seeded, and then hands the roles over to the msig
+      values: [deployer, [deployer], sequencerUptimeFeed ?? constants.AddressZero, sequencerUptimeFeed ? SEQUENCER_GRACE_PERIOD : 0],
+    };
     await deployThroughDeterministicFactory({
       deployer,
       name: 'ChainlinkFeedRegistry',
-      salt: 'MF-Chainlink-Feed-Registry-V1',
+      salt: REGISTRY_SALT,
       contract: 'contracts/ChainlinkRegistry/ChainlinkRegistry.sol:ChainlinkRegistry',
       bytecode,
-      constructorArgs: {
-        types: ['address', 'address[]'],
-        values: [msig, [msig]],
-      },
+      constructorArgs,
       log: !process.env.TEST,
       overrides: {
-        gasLimit: 3_000_000,
+        // The registry deploys its manager on construction, so a fixed limit can easily fall short
+        gasLimit: await estimateDeploymentGas(hre.ethers.provider, { from: deployer, bytecode, constructorArgs }),
       },
     });
   }
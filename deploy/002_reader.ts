@@ -0,0 +1,35 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from '@0xged/hardhat-deploy/types';
+import { bytecode } from '../artifacts/contracts/ChainlinkRegistry/ChainlinkRegistryReader.sol/ChainlinkRegistryReader.json';
+import { deployThroughDeterministicFactory } from '@mean-finance/deterministic-factory/utils/deployment';
+import { estimateDeploymentGas } from '../utils/deployment';
+
+const deployFunction: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const network = hre.deployments.getNetworkName();
+
+  // The reader depends on functions that are only available in our registry, so it can't work with the one operated by chainlink
+  if (network === 'ethereum') return;
+
+  const registry = await hre.deployments.get('ChainlinkFeedRegistry');
+  const constructorArgs = {
+    types: ['address'],
+    values: [registry.address],
+  };
+  await deployThroughDeterministicFactory({
+    deployer,
+    name: 'ChainlinkRegistryReader',
+    salt: 'MF-Chainlink-Registry-Reader-V2',
+    contract: 'contracts/ChainlinkRegistry/ChainlinkRegistryReader.sol:ChainlinkRegistryReader',
+    bytecode,
+    constructorArgs,
+    log: !process.env.TEST,
+    overrides: {
+      gasLimit: await estimateDeploymentGas(hre.ethers.provider, { from: deployer, bytecode, constructorArgs }),
+    },
+  });
+};
+
+deployFunction.tags = ['ChainlinkRegistryReader'];
+deployFunction.dependencies = ['ChainlinkFeedRegistry'];
+export default deployFunction;
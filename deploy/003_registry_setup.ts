@@ -0,0 +1,45 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from '@0xged/hardhat-deploy/types';
+import { getFeedsConfigPath, loadFeedsConfig } from '../utils/feeds-config';
+import { getRegistry, handOverRoles, seedFeeds } from '../utils/registry';
+
+const deployFunction: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer, msig } = await hre.getNamedAccounts();
+  const network = hre.deployments.getNetworkName();
+
+  // The registry operated by chainlink can't be managed by us
+  if (network === 'ethereum') return;
+
+  const signer = await hre.ethers.getSigner(deployer);
+  const registry = (await getRegistry(hre)).connect(signer);
+
+  // Once the roles were handed over, feeds can only be managed through the msig
+  if (await registry.hasRole(await registry.ADMIN_ROLE(), deployer)) {
+    let configPath: string | undefined;
+    try {
+      configPath = getFeedsConfigPath(network);
+    } catch {
+      hre.deployments.log(`No feeds config for ${network}, so no feeds will be assigned`);
+    }
+    if (configPath) {
+      // Pairs that already have the configured feed are skipped, so re-running this step is safe
+      for (const sent of await seedFeeds(registry, loadFeedsConfig(configPath))) {
+        hre.deployments.log(sent);
+      }
+    }
+  }
+
+  // Local networks don't have a msig, so the deployer keeps its roles
+  if (!msig) {
+    hre.deployments.log(`No msig configured for ${network}, so roles will stay with the deployer`);
+    return;
+  }
+
+  const renounced = await handOverRoles(registry, msig);
+  if (renounced.length > 0) hre.deployments.log(`Handed over ${renounced.join(', ')} to ${msig}`);
+};
+
+// This step shares the registry's tag, so that deploying the registry can't leave the deployer with its roles. Scripts run in
+// file order, so the registry is always deployed before it's set up
+deployFunction.tags = ['ChainlinkFeedRegistry', 'ChainlinkFeedRegistrySetup'];
+export default deployFunction;
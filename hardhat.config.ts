@@ -9,6 +9,11 @@ import 'hardhat-gas-reporter';
 import '@0xged/hardhat-deploy';
 import 'solidity-coverage';
 import './tasks/npm-publish-clean-typechain';
+import './tasks/migrate-registry';
+import './tasks/feeds';
+import './tasks/safe-batch';
+import './tasks/address-book';
+import './tasks/price';
 import { HardhatUserConfig, MultiSolcUserConfig, NetworksUserConfig } from 'hardhat/types';
 import { getNodeUrl, accounts } from './utils/network';
 import 'tsconfig-paths/register';
@@ -0,0 +1,4 @@
+export * from './typechained';
+export * from './sdk';
+// The library's typechain interface is not useful off-chain, so the name is taken by the constants
+export { Denominations } from './sdk';
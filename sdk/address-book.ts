@@ -0,0 +1,40 @@
+// This file is generated with `npx hardhat registry:address-book`, please don't modify it manually
+export const REGISTRY_ADDRESSES = {
+  arbitrum: '0x921c42D5521CA9CA273e4E287d154D802154Bad7',
+  ethereum: '0x47Fb2585D2C56Fe188D0E6ec628a38b74fCeeeDf',
+  optimism: '0x921c42D5521CA9CA273e4E287d154D802154Bad7',
+  polygon: '0x921c42D5521CA9CA273e4E287d154D802154Bad7',
+} as const;
+
+export type RegistryNetwork = keyof typeof REGISTRY_ADDRESSES;
+
+export type CatalogEntry = { base: string; quote: string; feed: string };
+
+// The pairs that are known to be assigned on each network
+export const FEED_CATALOG: Record<RegistryNetwork, readonly CatalogEntry[]> = {
+  arbitrum: [],
+  ethereum: [],
+  optimism: [],
+  polygon: [
+    {
+      base: '0x53E0bca35eC356BD5ddDFebbD1Fc0fD03FaBad39',
+      quote: '0x0000000000000000000000000000000000000348',
+      feed: '0xd9FFdb71EbE7496cC440152d43986Aae0AB76665',
+    },
+    {
+      base: '0xD6DF932A45C0f255f85145f286eA0b292B21C90B',
+      quote: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+      feed: '0xbE23a3AA13038CfC28aFd0ECe4FdE379fE7fBfc4',
+    },
+    {
+      base: '0x1FcbE5937B0cc2adf69772D228fA4205aCF4D9b2',
+      quote: '0x0000000000000000000000000000000000000348',
+      feed: '0xF626964Ba5e81405f47e8004F0b276Bb974742B5',
+    },
+    {
+      base: '0x53E0bca35eC356BD5ddDFebbD1Fc0fD03FaBad39',
+      quote: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+      feed: '0xb77fa460604b9C6435A235D057F7D319AC83cb53',
+    },
+  ],
+};
@@ -0,0 +1,36 @@
+// The special addresses used to represent assets that are not tokens. Matches `contracts/libraries/Denominations.sol`
+export const Denominations = {
+  ETH: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+  BTC: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB',
+  // On Polygon, the native token can also be used as an ERC20 through this address
+  MATIC: '0x0000000000000000000000000000000000001010',
+  // Fiat currencies follow ISO 4217
+  USD: '0x0000000000000000000000000000000000000348',
+  GBP: '0x000000000000000000000000000000000000033a',
+  EUR: '0x00000000000000000000000000000000000003d2',
+  JPY: '0x0000000000000000000000000000000000000188',
+  KRW: '0x000000000000000000000000000000000000019a',
+  CNY: '0x000000000000000000000000000000000000009c',
+  AUD: '0x0000000000000000000000000000000000000024',
+  CAD: '0x000000000000000000000000000000000000007c',
+  CHF: '0x00000000000000000000000000000000000002F4',
+  ARS: '0x0000000000000000000000000000000000000020',
+  PHP: '0x0000000000000000000000000000000000000260',
+  NZD: '0x000000000000000000000000000000000000022A',
+  SGD: '0x00000000000000000000000000000000000002be',
+  NGN: '0x0000000000000000000000000000000000000236',
+  ZAR: '0x00000000000000000000000000000000000002c6',
+  RUB: '0x0000000000000000000000000000000000000283',
+  INR: '0x0000000000000000000000000000000000000164',
+  BRL: '0x00000000000000000000000000000000000003Da',
+} as const;
+
+export type Denomination = keyof typeof Denominations;
+
+// The denomination of the native gas token on each of the networks we deploy to
+export const NATIVE_DENOMINATIONS: Record<string, Denomination> = {
+  ethereum: 'ETH',
+  optimism: 'ETH',
+  arbitrum: 'ETH',
+  polygon: 'MATIC',
+};
@@ -0,0 +1,77 @@
+import { utils } from 'ethers';
+import { ChainlinkRegistry__factory } from '../typechained';
+
+const REGISTRY_INTERFACE = ChainlinkRegistry__factory.createInterface();
+// The registry operated by chainlink reverts with a message instead of a custom error
+const CHAINLINK_FEED_NOT_FOUND = 'Feed not found';
+
+export class RegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+export class RegistryNotDeployedError extends RegistryError {
+  constructor(readonly network: string) {
+    super(`The registry is not deployed on ${network}`);
+  }
+}
+
+export class FeedNotFoundError extends RegistryError {
+  constructor(readonly base: string, readonly quote: string) {
+    super(`There is no feed for ${base}/${quote}`);
+  }
+}
+
+export class FunctionNotSupportedError extends RegistryError {
+  constructor(readonly method: string) {
+    super(`${method} is not supported by the registry`);
+  }
+}
+
+/**
+ * Maps a revert from the registry to one of our typed errors. If the error can't be mapped, then the original error is returned
+ */
+export function toRegistryError(error: unknown, { method, base, quote }: { method: string; base: string; quote: string }): unknown {
+  const name = findCustomErrorName(error);
+  if (name === 'FeedNotFound') return new FeedNotFoundError(base, quote);
+  if (name === 'FunctionNotSupported') return new FunctionNotSupportedError(method);
+  if (
+    isObject(error) &&
+    (error.reason === CHAINLINK_FEED_NOT_FOUND || (Array.isArray(error.errorArgs) && error.errorArgs[0] === CHAINLINK_FEED_NOT_FOUND))
+  ) {
+    return new FeedNotFoundError(base, quote);
+  }
+  return error;
+}
+
+function findCustomErrorName(error: unknown): string | undefined {
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      return REGISTRY_INTERFACE.parseError(data).name;
+    } catch {
+      // Not one of the registry's custom errors
+    }
+  }
+  // Hardhat's in-process network doesn't return the revert data for calls, it only mentions the error in the message
+  return findInMessage(error, /reverted with custom error '(\w+)\(/);
+}
+
+function findInMessage(error: unknown, regex: RegExp, depth: number = 0): string | undefined {
+  if (!isObject(error) || depth > 3) return undefined;
+  const match = typeof error.message === 'string' ? error.message.match(regex) : null;
+  return match?.[1] ?? findInMessage(error.error, regex, depth + 1);
+}
+
+// Depending on the provider, the revert data can be nested in different places
+function findRevertData(error: unknown, depth: number = 0): string | undefined {
+  if (!isObject(error) || depth > 3) return undefined;
+  if (typeof error.data === 'string' && utils.isHexString(error.data) && error.data.length >= 10) return error.data;
+  return findRevertData(error.data, depth + 1) ?? findRevertData(error.error, depth + 1);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,4 @@
+export * from './address-book';
+export * from './denominations';
+export * from './errors';
+export * from './registry-client';
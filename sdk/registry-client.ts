@@ -0,0 +1,62 @@
+import { Provider } from '@ethersproject/abstract-provider';
+import { BigNumber, utils } from 'ethers';
+import { ChainlinkRegistry, ChainlinkRegistry__factory } from '../typechained';
+import { REGISTRY_ADDRESSES, RegistryNetwork } from './address-book';
+import { RegistryNotDeployedError, toRegistryError } from './errors';
+
+export type Price = {
+  // The raw answer reported by the feed
+  answer: BigNumber;
+  decimals: number;
+  // The answer, scaled by the feed's decimals (for example, '1234.5678')
+  value: string;
+  roundId: BigNumber;
+  // Timestamps are in seconds
+  startedAt: number;
+  updatedAt: number;
+};
+
+export class RegistryClient {
+  readonly registry: ChainlinkRegistry;
+
+  constructor(provider: Provider, readonly network: string, { address }: { address?: string } = {}) {
+    const registryAddress = address ?? REGISTRY_ADDRESSES[network as RegistryNetwork];
+    if (!registryAddress) throw new RegistryNotDeployedError(network);
+    this.registry = ChainlinkRegistry__factory.connect(registryAddress, provider);
+  }
+
+  async getPrice(base: string, quote: string): Promise<Price> {
+    const [[roundId, answer, startedAt, updatedAt], decimals] = await Promise.all([
+      this.call('latestRoundData', base, quote, () => this.registry.latestRoundData(base, quote)),
+      this.getDecimals(base, quote),
+    ]);
+    return {
+      answer,
+      decimals,
+      value: utils.formatUnits(answer, decimals),
+      roundId,
+      startedAt: startedAt.toNumber(),
+      updatedAt: updatedAt.toNumber(),
+    };
+  }
+
+  getDecimals(base: string, quote: string): Promise<number> {
+    return this.call('decimals', base, quote, () => this.registry.decimals(base, quote));
+  }
+
+  getDescription(base: string, quote: string): Promise<string> {
+    return this.call('description', base, quote, () => this.registry.description(base, quote));
+  }
+
+  getFeed(base: string, quote: string): Promise<string> {
+    return this.call('getFeed', base, quote, () => this.registry.getFeed(base, quote));
+  }
+
+  private async call<T>(method: string, base: string, quote: string, execute: () => Promise<T>): Promise<T> {
+    try {
+      return await execute();
+    } catch (error) {
+      throw toRegistryError(error, { method, base, quote });
+    }
+  }
+}
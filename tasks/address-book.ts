@@ -0,0 +1,17 @@
+import fs from 'fs';
+import { task } from 'hardhat/config';
+import { ADDRESS_BOOK_PATH, buildAddressBook, renderAddressBook } from '../utils/address-book';
+
+task('registry:address-book', 'Generates the address book and feed catalog that are published with the package')
+  .addFlag('check', 'Fails if the published address book is out of date, instead of generating it')
+  .setAction(async ({ check }: { check: boolean }) => {
+    const rendered = renderAddressBook(buildAddressBook());
+    if (!check) {
+      fs.writeFileSync(ADDRESS_BOOK_PATH, rendered);
+      console.log(`📝 ${ADDRESS_BOOK_PATH} was generated`);
+    } else if (fs.readFileSync(ADDRESS_BOOK_PATH, 'utf-8') !== rendered) {
+      throw new Error(`${ADDRESS_BOOK_PATH} is out of date, please run registry:address-book`);
+    } else {
+      console.log(`✅ ${ADDRESS_BOOK_PATH} is up to date`);
+    }
+  });
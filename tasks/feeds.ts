@@ -0,0 +1,87 @@
+import fs from 'fs';
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { buildPlanTransactions, FeedsPlan, getFeedsConfigPath, loadFeedsConfig, pairKey, planFeedChanges } from '../utils/feeds-config';
+import { getRegistry } from '../utils/registry';
+import { checkDrift } from '../utils/drift';
+
+type ConfigArgs = { feedsConfig?: string; registry?: string };
+
+task('registry:plan', "Compares the network's feeds config against the registry, and prints the calldata needed to apply it")
+  .addOptionalParam('feedsConfig', 'The path to the feeds config. Defaults to the one for the current network')
+  .addOptionalParam('registry', 'The address of the registry. Defaults to the deployed one')
+  .setAction(async (args: ConfigArgs, hre) => {
+    const { registry, plan } = await loadPlan(hre, args);
+    printPlan(plan);
+    for (const { description, to, data } of await buildPlanTransactions(registry, plan)) {
+      console.log(`\n📝 ${description}\nto: ${to}\ndata: ${data}`);
+    }
+  });
+
+task('registry:apply', "Applies the network's feeds config to the registry, by sending the transactions directly")
+  .addOptionalParam('feedsConfig', 'The path to the feeds config. Defaults to the one for the current network')
+  .addOptionalParam('registry', 'The address of the registry. Defaults to the deployed one')
+  .setAction(async (args: ConfigArgs, hre) => {
+    const { registry, plan } = await loadPlan(hre, args);
+    printPlan(plan);
+    const [signer] = await hre.ethers.getSigners();
+    for (const { description, to, data } of await buildPlanTransactions(registry, plan)) {
+      const tx = await signer.sendTransaction({ to, data });
+      await tx.wait();
+      console.log(`✅ ${description} (${tx.hash})`);
+    }
+  });
+
+task('registry:list', 'Lists all the pairs that are assigned in the registry')
+  .addOptionalParam('registry', 'The address of the registry. Defaults to the deployed one')
+  .addOptionalParam('pageSize', 'The amount of assigned pairs to read per call', 100, types.int)
+  .setAction(async ({ registry: address, pageSize }: { registry?: string; pageSize: number }, hre) => {
+    const registry = await getRegistry(hre, address);
+    const total = (await registry.assignedPairsCount()).toNumber();
+    for (let offset = 0; offset < total; offset += pageSize) {
+      for (const { base, quote, feed, isProxy, isInverted } of await registry.getAssignedPairs(offset, pageSize)) {
+        const details = [isProxy ? 'proxy' : 'aggregator', ...(isInverted ? ['inverted'] : [])];
+        console.log(`${pairKey({ base, quote })} => ${feed} (${details.join(', ')})`);
+      }
+    }
+    console.log(`${total} assigned pairs`);
+  });
+
+task('registry:check', "Checks that the registry matches the network's feeds config, and exits with an error code if it doesn't")
+  .addOptionalParam('feedsConfig', 'The path to the feeds config. Defaults to the one for the current network')
+  .addOptionalParam('registry', 'The address of the registry. Defaults to the deployed one')
+  .addOptionalParam('output', 'A path where the JSON report will also be written')
+  .setAction(async ({ feedsConfig, registry: address, output }: ConfigArgs & { output?: string }, hre) => {
+    const configPath = feedsConfig ?? getFeedsConfigPath(hre.deployments.getNetworkName());
+    const registry = await getRegistry(hre, address);
+    const report = await checkDrift(registry, loadFeedsConfig(configPath), async (feed) => {
+      const proxy = await hre.ethers.getContractAt('IAggregatorProxy', feed);
+      return proxy.aggregator().then(
+        () => true,
+        () => false
+      );
+    });
+    const json = JSON.stringify({ network: hre.deployments.getNetworkName(), ...report }, null, 2);
+    console.log(json);
+    if (output) fs.writeFileSync(output, json);
+    // We don't throw, so that the output is only the report
+    if (!report.ok) process.exitCode = 1;
+  });
+
+async function loadPlan(hre: HardhatRuntimeEnvironment, { feedsConfig, registry: address }: ConfigArgs) {
+  const configPath = feedsConfig ?? getFeedsConfigPath(hre.deployments.getNetworkName());
+  const registry = await getRegistry(hre, address);
+  const plan = await planFeedChanges(registry, loadFeedsConfig(configPath));
+  return { registry, plan };
+}
+
+function printPlan({ toAssign, toRemove }: FeedsPlan) {
+  if (toAssign.length === 0 && toRemove.length === 0) {
+    console.log('✅ Registry is up to date');
+    return;
+  }
+  toAssign.forEach(({ base, quote, currentFeed, desiredFeed }) =>
+    console.log(`➕ ${pairKey({ base, quote })}: ${currentFeed} => ${desiredFeed}`)
+  );
+  toRemove.forEach(({ base, quote, currentFeed }) => console.log(`➖ ${pairKey({ base, quote })}: ${currentFeed}`));
+}
@@ -0,0 +1,54 @@
+import { task, types } from 'hardhat/config';
+import { compareRegistries, exportAll, exportConfig, getRegistryDeployment } from '../utils/migration';
+
+task(
+  'registry:migrate',
+  'Imports all assignments and the global configuration from one registry deployment into another, and checks that both end up identical'
+)
+  .addParam('from', 'The address of the reader deployed for the registry to migrate from')
+  .addParam('to', 'The address of the reader deployed for the registry to migrate to')
+  .addOptionalParam('pageSize', 'The amount of assigned pairs to export per call', 50, types.int)
+  .addOptionalParam('chunkSize', 'The amount of pairs to import per transaction', 20, types.int)
+  .setAction(async ({ from, to, pageSize, chunkSize }: { from: string; to: string; pageSize: number; chunkSize: number }, hre) => {
+    const source = await getRegistryDeployment(hre, from);
+    const target = await getRegistryDeployment(hre, to);
+    if (source.registry.address === target.registry.address) throw new Error('Both readers point to the same registry');
+
+    const config = await exportConfig(source);
+    const pairs = await exportAll(source, pageSize);
+    console.log(`📤 Exported ${pairs.length} pairs and the global configuration from ${source.registry.address}`);
+
+    const targetConfig = await exportConfig(target);
+    const overridesToAdd = config.validationOverrides.filter((feed) => !targetConfig.validationOverrides.includes(feed));
+    if (overridesToAdd.length > 0) {
+      const tx = await target.registry.setValidationOverrides(overridesToAdd.map((feed) => ({ feed, enabled: true })));
+      await tx.wait();
+      console.log(`📥 Added ${overridesToAdd.length} validation overrides to ${target.registry.address} (${tx.hash})`);
+    }
+    if (JSON.stringify(config.intermediates) !== JSON.stringify(targetConfig.intermediates)) {
+      const tx = await target.registry.setIntermediates(config.intermediates);
+      await tx.wait();
+      console.log(`📥 Set intermediates in ${target.registry.address} (${tx.hash})`);
+    }
+
+    for (let i = 0; i < pairs.length; i += chunkSize) {
+      const chunk = pairs.slice(i, i + chunkSize);
+      const tx = await target.registry.importPairs(chunk);
+      await tx.wait();
+      console.log(`📥 Imported pairs ${i + 1} to ${i + chunk.length} into ${target.registry.address} (${tx.hash})`);
+    }
+
+    // Pairs can't be imported once there is an assignment delay, so it has to be set last
+    if (config.assignmentDelay !== targetConfig.assignmentDelay) {
+      const tx = await target.registry.setAssignmentDelay(config.assignmentDelay);
+      await tx.wait();
+      console.log(`📥 Set the assignment delay in ${target.registry.address} (${tx.hash})`);
+    }
+
+    const differences = await compareRegistries(source, target, pageSize);
+    if (differences.length > 0) {
+      differences.forEach((difference) => console.error(`❌ ${difference}`));
+      throw new Error(`Registries differ after the migration (${differences.length} differences found)`);
+    }
+    console.log('✅ Both registries are identical');
+  });
@@ -0,0 +1,33 @@
+import { task } from 'hardhat/config';
+import { formatAge, PriceReport, readPrice, resolveAsset } from '../utils/price';
+
+type PriceArgs = { base: string; quote: string; registry?: string; json: boolean };
+
+task('registry:price', 'Prints the latest price that the registry reports for a pair, together with the feed that reports it')
+  .addPositionalParam('base', 'The base asset, as a symbol (like ETH) or as an address')
+  .addPositionalParam('quote', 'The quote asset, as a symbol (like USD) or as an address')
+  .addOptionalParam('registry', 'The address of the registry. Defaults to the deployed one')
+  .addFlag('json', 'Prints the result as JSON')
+  .setAction(async ({ base, quote, registry, json }: PriceArgs, hre) => {
+    const network = hre.deployments.getNetworkName();
+    const address = registry ?? (await hre.deployments.getOrNull('ChainlinkFeedRegistry'))?.address;
+    // The client depends on the typechained bindings, so we can't import it before they are generated
+    const { RegistryClient } = await import('../sdk/registry-client');
+    const client = new RegistryClient(hre.ethers.provider, network, { address });
+    const { timestamp } = await hre.ethers.provider.getBlock('latest');
+    const report = await readPrice(client, resolveAsset(base), resolveAsset(quote), timestamp);
+    if (json) {
+      console.log(JSON.stringify({ network, registry: client.registry.address, ...report }, null, 2));
+    } else {
+      printReport(`${base}/${quote}`, report);
+    }
+  });
+
+function printReport(pair: string, { description, value, decimals, roundId, updatedAt, age, feed, aggregator, isProxy }: PriceReport) {
+  console.log(`💲 ${pair}: ${value} (${description}, ${decimals} decimals)`);
+  console.log(`⏱️  Updated ${formatAge(age)} ago, at ${new Date(updatedAt * 1000).toISOString()} (round ${roundId})`);
+  if (feed) {
+    console.log(`🔗 Feed: ${feed} (${isProxy ? 'proxy' : 'aggregator'})`);
+  }
+  console.log(`📡 Aggregator: ${aggregator}`);
+}
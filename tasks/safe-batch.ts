@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { task, types } from 'hardhat/config';
+import { getFeedsConfigPath, loadFeedsConfig, planFeedChanges, PlannedTransaction } from '../utils/feeds-config';
+import { getRegistry } from '../utils/registry';
+import { buildFeedCalls, buildGrantRoleCall, buildSendDustCall, chunkByGas, RoleGrant, SendDust, toSafeBatchFile } from '../utils/safe-batch';
+
+type SafeBatchArgs = {
+  feeds: boolean;
+  feedsConfig?: string;
+  sendDust: SendDust[];
+  grantRoles: RoleGrant[];
+  gasLimit: number;
+  safe?: string;
+  registry?: string;
+  output: string;
+};
+
+task('registry:safe-batch', 'Generates Safe Transaction Builder batches with changes to the registry, so that the msig can execute them')
+  .addFlag('feeds', "Include the changes needed to apply the network's feeds config")
+  .addOptionalParam('feedsConfig', 'The path to the feeds config. Defaults to the one for the current network')
+  .addOptionalParam('sendDust', 'A list of { recipient, token, amount } to send as dust', [], types.json)
+  .addOptionalParam('grantRoles', 'A list of { role, account } to grant, where role is the name of the role', [], types.json)
+  .addOptionalParam('gasLimit', 'The max amount of gas that each batch can use', 5_000_000, types.int)
+  .addOptionalParam('safe', 'The address of the Safe that will execute the batches. Defaults to the msig')
+  .addOptionalParam('registry', 'The address of the registry. Defaults to the deployed one')
+  .addOptionalParam('output', 'The directory where batches will be written', 'safe-batches')
+  .setAction(async (args: SafeBatchArgs, hre) => {
+    const registry = await getRegistry(hre, args.registry);
+    const safe = args.safe ?? (await hre.getNamedAccounts()).msig;
+    if (!safe) throw new Error('No Safe was given, and there is no msig for this network');
+
+    const calls: PlannedTransaction[] = [];
+    if (args.feeds) {
+      const configPath = args.feedsConfig ?? getFeedsConfigPath(hre.deployments.getNetworkName());
+      calls.push(...(await buildFeedCalls(registry, await planFeedChanges(registry, loadFeedsConfig(configPath)))));
+    }
+    calls.push(...args.sendDust.map((dust) => buildSendDustCall(registry, dust)));
+    calls.push(...args.grantRoles.map((grant) => buildGrantRoleCall(registry, grant)));
+    if (calls.length === 0) {
+      console.log('✅ Nothing to do');
+      return;
+    }
+
+    const chunks = await chunkByGas(calls, args.gasLimit, ({ to, data }) => hre.ethers.provider.estimateGas({ from: safe, to, data }));
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const network = hre.deployments.getNetworkName();
+    const createdAt = Date.now();
+    fs.mkdirSync(args.output, { recursive: true });
+    chunks.forEach((chunk, i) => {
+      const name = `${network}-registry-${createdAt}-${i + 1}-of-${chunks.length}`;
+      const file = toSafeBatchFile({ chainId, safe, name, calls: chunk, createdAt });
+      const filePath = path.join(args.output, `${name}.json`);
+      fs.writeFileSync(filePath, JSON.stringify(file, null, 2));
+      console.log(`📝 ${filePath} (${chunk.length} transactions)`);
+    });
+  });
@@ -7,6 +7,8 @@ import FEED_ABI from '@chainlink/contracts/abi/v0.8/AggregatorV2V3Interface.json
 import { given, then, when } from '@test-utils/bdd';
 import { expect } from 'chai';
 import { DeterministicFactory, DeterministicFactory__factory } from '@mean-finance/deterministic-factory';
+import { Denominations } from '@sdk/denominations';
+import { getFeedsConfigPath, loadFeedsConfig } from '@utils/feeds-config';
 import { address as DETERMINISTIC_FACTORY_ADDRESS } from '@mean-finance/deterministic-factory/deployments/polygon/DeterministicFactory.json';
 
 type Token = { address: string; name: string };
@@ -15,8 +17,8 @@ const LINK = { address: '0x53E0bca35eC356BD5ddDFebbD1Fc0fD03FaBad39', name: 'LIN
 const AAVE = { address: '0xD6DF932A45C0f255f85145f286eA0b292B21C90B', name: 'AAVE' };
 const BADGER = { address: '0x1fcbe5937b0cc2adf69772d228fa4205acf4d9b2', name: 'BADGER' };
 
-const USD = { address: '0x0000000000000000000000000000000000000348', name: 'USD' };
-const ETH = { address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', name: 'ETH' };
+const USD = { address: Denominations.USD, name: 'USD' };
+const ETH = { address: Denominations.ETH, name: 'ETH' };
 
 const PAIRS = [
   { base: LINK, quote: USD, feed: '0xd9FFdb71EbE7496cC440152d43986Aae0AB76665' },
@@ -49,7 +51,7 @@ describe('ChainlinkRegistry', () => {
       DETERMINISTIC_FACTORY_ADDRESS
     );
     await deterministicFactory.connect(admin).grantRole(await deterministicFactory.DEPLOYER_ROLE(), deployer);
-    await deployments.run('ChainlinkFeedRegistry', {
+    await deployments.run(['ChainlinkFeedRegistry', 'ChainlinkFeedRegistrySetup'], {
       resetMemory: true,
       deletePreviousDeployments: false,
       writeDeploymentsToFiles: false,
@@ -62,6 +64,14 @@ describe('ChainlinkRegistry', () => {
     await snapshot.revert(snapshotId);
   });
 
+  describe('deployment', () => {
+    then('pairs in the feeds config are assigned', async () => {
+      for (const { base, quote, feed } of loadFeedsConfig(getFeedsConfigPath('polygon'))) {
+        expect(await registry.getFeed(base, quote)).to.equal(feed);
+      }
+    });
+  });
+
   for (const { base, quote, feed: feedAddress } of PAIRS) {
     describe(`${base.name}/${quote.name}`, () => {
       let feed: AggregatorV2V3Interface;
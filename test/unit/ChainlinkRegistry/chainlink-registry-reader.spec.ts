@@ -0,0 +1,623 @@
+import chai, { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { behaviours, constants } from '@test-utils';
+import { contract, given, then, when } from '@test-utils/bdd';
+import evm, { snapshot } from '@test-utils/evm';
+import { ChainlinkRegistryReader, ChainlinkRegistryReader__factory, IAggregatorProxy, IChainlinkRegistry } from '@typechained';
+import { FakeContract, smock } from '@defi-wonderland/smock';
+import { BigNumber, BigNumberish, utils } from 'ethers';
+import { Denominations } from '@sdk/denominations';
+
+chai.use(smock.matchers);
+
+contract('ChainlinkRegistryReader', () => {
+  const LINK = '0xa36085F69e2889c224210F603D836748e7dC0088';
+  const USD = Denominations.USD;
+  const ETH = Denominations.ETH;
+  const AAVE = '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9';
+  const HEARTBEAT = 3600;
+
+  let registry: FakeContract<IChainlinkRegistry>;
+  let feed: FakeContract<IAggregatorProxy>, fallbackFeed: FakeContract<IAggregatorProxy>, anotherFallbackFeed: FakeContract<IAggregatorProxy>;
+  let aggregatorFeed: FakeContract<IAggregatorProxy>;
+  let factory: ChainlinkRegistryReader__factory;
+  let reader: ChainlinkRegistryReader;
+  let now: number;
+  let snapshotId: string;
+
+  before('Setup accounts and contracts', async () => {
+    registry = await smock.fake('IChainlinkRegistry');
+    feed = await smock.fake('IAggregatorProxy');
+    fallbackFeed = await smock.fake('IAggregatorProxy');
+    anotherFallbackFeed = await smock.fake('IAggregatorProxy');
+    aggregatorFeed = await smock.fake('IAggregatorProxy');
+    factory = await ethers.getContractFactory('contracts/ChainlinkRegistry/ChainlinkRegistryReader.sol:ChainlinkRegistryReader');
+    reader = await factory.deploy(registry.address);
+    snapshotId = await snapshot.take();
+  });
+
+  beforeEach('Deploy and configure', async () => {
+    await snapshot.revert(snapshotId);
+    now = (await ethers.provider.getBlock('latest')).timestamp;
+    registry.getAssignedFeed.reset();
+    registry.getAssignedPairs.reset();
+    registry.getFallbackFeeds.reset();
+    registry.getHeartbeat.reset();
+    registry.getMedianMinSources.reset();
+    registry.getIntermediates.reset();
+    registry.getValidationOverrides.reset();
+    registry.assignmentDelay.reset();
+    for (const aggregator of [feed, fallbackFeed, anotherFallbackFeed, aggregatorFeed]) {
+      aggregator.latestRoundData.reset();
+      aggregator.latestRoundData.returns([1, 100, now, now, 1]);
+      aggregator.decimals.reset();
+      aggregator.getRoundData.reset();
+    }
+  });
+
+  describe('constructor', () => {
+    when('registry is zero address', () => {
+      then('tx is reverted with reason error', async () => {
+        await behaviours.deployShouldRevertWithMessage({
+          contract: factory,
+          args: [constants.ZERO_ADDRESS],
+          message: 'ZeroAddress',
+        });
+      });
+    });
+    when('all arguments are valid', () => {
+      then('registry is set correctly', async () => {
+        expect(await reader.registry()).to.equal(registry.address);
+      });
+    });
+  });
+
+  describe('latestRoundDataWithFallback', () => {
+    when('pair has no feeds', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'latestRoundDataWithFallback',
+          args: [LINK, USD],
+          message: 'FeedNotFound',
+        });
+      });
+    });
+    when('assigned feed is fresh', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address] });
+      });
+      then('its data is returned', async () => {
+        await expectSource(feed.address);
+      });
+      then('fallbacks are not called', () => {
+        expect(fallbackFeed.latestRoundData).to.not.have.been.called;
+      });
+    });
+    when('assigned feed reverts', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address] });
+        feed.latestRoundData.reverts();
+      });
+      then('the first fallback answers', async () => {
+        await expectSource(fallbackFeed.address);
+      });
+    });
+    when('assigned feed is stale', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address] });
+        feed.latestRoundData.returns([1, 100, now - HEARTBEAT * 2, now - HEARTBEAT * 2, 1]);
+      });
+      then('the first fallback answers', async () => {
+        await expectSource(fallbackFeed.address);
+      });
+    });
+    when('the first fallback reports an invalid answer', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address, anotherFallbackFeed.address] });
+        feed.latestRoundData.reverts();
+        fallbackFeed.latestRoundData.returns([1, 0, now, now, 1]);
+      });
+      then('the next fallback answers', async () => {
+        await expectSource(anotherFallbackFeed.address);
+      });
+    });
+    when('the first fallback reports an incomplete round', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address, anotherFallbackFeed.address] });
+        feed.latestRoundData.reverts();
+        fallbackFeed.latestRoundData.returns([2, 100, now, now, 1]);
+      });
+      then('the next fallback answers', async () => {
+        await expectSource(anotherFallbackFeed.address);
+      });
+    });
+    when('pair only has fallback feeds', () => {
+      given(() => {
+        assignFeeds({ assigned: constants.ZERO_ADDRESS, fallbacks: [fallbackFeed.address] });
+      });
+      then('the fallback answers', async () => {
+        await expectSource(fallbackFeed.address);
+      });
+    });
+    when('the assigned feed belongs to the inverse pair', () => {
+      let source: string;
+      given(async () => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address], isInverted: true });
+        ({ _source: source } = await reader.latestRoundDataWithFallback(LINK, USD));
+      });
+      then('it is ignored', () => {
+        expect(source).to.equal(fallbackFeed.address);
+      });
+      then('heartbeat is read from the registry', () => {
+        expect(registry.getHeartbeat).to.have.been.calledOnceWith(LINK, USD);
+      });
+    });
+    when('no feed is fresh', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address] });
+        feed.latestRoundData.reverts();
+        fallbackFeed.latestRoundData.reverts();
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'latestRoundDataWithFallback',
+          args: [LINK, USD],
+          message: 'NoFreshFeed',
+        });
+      });
+    });
+  });
+
+  describe('latestMedianAnswer', () => {
+    when('median aggregation is not enabled', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address] });
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'latestMedianAnswer',
+          args: [LINK, USD],
+          message: 'MedianNotEnabled',
+        });
+      });
+    });
+    when('there is an odd amount of fresh feeds', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address, anotherFallbackFeed.address] });
+        registry.getMedianMinSources.returns(2);
+        setAnswer(feed, 3000e8, 8);
+        setAnswer(fallbackFeed, utils.parseEther('1000'), 18);
+        setAnswer(anotherFallbackFeed, 2000e6, 6);
+      });
+      then('the middle answer is returned, with 18 decimals', async () => {
+        const [answer, sources] = await reader.latestMedianAnswer(LINK, USD);
+        expect(answer).to.equal(utils.parseEther('2000'));
+        expect(sources).to.equal(3);
+      });
+    });
+    when('there is an even amount of fresh feeds', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address, anotherFallbackFeed.address] });
+        registry.getMedianMinSources.returns(2);
+        setAnswer(feed, 3000e8, 8);
+        setAnswer(fallbackFeed, utils.parseEther('1000'), 18);
+        anotherFallbackFeed.latestRoundData.returns([1, 2000e6, now - HEARTBEAT * 2, now - HEARTBEAT * 2, 1]);
+      });
+      then('stale feeds are dropped, and the average of the middle answers is returned', async () => {
+        const [answer, sources] = await reader.latestMedianAnswer(LINK, USD);
+        expect(answer).to.equal(utils.parseEther('2000'));
+        expect(sources).to.equal(2);
+      });
+    });
+    when('a feed has more than 18 decimals', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [] });
+        registry.getMedianMinSources.returns(1);
+        setAnswer(feed, utils.parseUnits('1500', 20), 20);
+      });
+      then('its answer is normalized', async () => {
+        const [answer, sources] = await reader.latestMedianAnswer(LINK, USD);
+        expect(answer).to.equal(utils.parseEther('1500'));
+        expect(sources).to.equal(1);
+      });
+    });
+    when('there are less fresh feeds than the minimum', () => {
+      given(() => {
+        assignFeeds({ assigned: feed.address, fallbacks: [fallbackFeed.address] });
+        registry.getMedianMinSources.returns(2);
+        fallbackFeed.latestRoundData.reverts();
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'latestMedianAnswer',
+          args: [LINK, USD],
+          message: 'NotEnoughSources',
+        });
+      });
+    });
+  });
+
+  describe('twap', () => {
+    const PERIOD = 1000;
+    given(() => {
+      // We will move to this timestamp before reading
+      now += 100;
+    });
+    when('period is zero', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'twap',
+          args: [LINK, USD, 0],
+          message: 'InvalidPeriod',
+        });
+      });
+    });
+    when('pair has no feed', () => {
+      given(() => {
+        assignFeeds({ assigned: constants.ZERO_ADDRESS, fallbacks: [] });
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'twap',
+          args: [LINK, USD, PERIOD],
+          message: 'FeedNotFound',
+        });
+      });
+    });
+    when('feed is not a proxy', () => {
+      let answer: BigNumber, coveredPeriod: BigNumber;
+      given(async () => {
+        assignFeeds({ assigned: feed.address, fallbacks: [] });
+        // From the start of the period: 500 seconds at 100, 400 seconds at 200 and 100 seconds at 300
+        setRounds(feed, [
+          { answer: 100, updatedAt: now - 2000 },
+          { answer: 200, updatedAt: now - 500 },
+          { answer: 300, updatedAt: now - 100 },
+        ]);
+        [answer, coveredPeriod] = await readTwap(PERIOD);
+      });
+      then('the time-weighted average is returned', () => {
+        expect(answer).to.equal(160);
+        expect(coveredPeriod).to.equal(PERIOD);
+      });
+      then('rounds before the period are not read', () => {
+        expect(feed.getRoundData).to.have.been.calledTwice;
+      });
+    });
+    when('feed is a proxy', () => {
+      let answer: BigNumber;
+      given(async () => {
+        registry.getAssignedFeed.returns({ ...assignedFeed(feed.address), isProxy: true });
+        feed.aggregator.returns(aggregatorFeed.address);
+        setRounds(aggregatorFeed, [
+          { answer: 100, updatedAt: now - 2000 },
+          { answer: 300, updatedAt: now - 500 },
+        ]);
+        [answer] = await readTwap(PERIOD);
+      });
+      then('the rounds are read from the aggregator', () => {
+        expect(answer).to.equal(200);
+        expect(feed.getRoundData).to.not.have.been.called;
+      });
+    });
+    when('there are not enough rounds', () => {
+      let answer: BigNumber, coveredPeriod: BigNumber;
+      given(async () => {
+        assignFeeds({ assigned: feed.address, fallbacks: [] });
+        setRounds(feed, [
+          { answer: 100, updatedAt: now - 600 },
+          { answer: 400, updatedAt: now - 200 },
+        ]);
+        [answer, coveredPeriod] = await readTwap(PERIOD);
+      });
+      then('the average covers a shorter period', () => {
+        expect(answer).to.equal(200);
+        expect(coveredPeriod).to.equal(600);
+      });
+    });
+    when('there are more rounds than the max', () => {
+      let coveredPeriod: BigNumber;
+      given(async () => {
+        assignFeeds({ assigned: feed.address, fallbacks: [] });
+        const rounds = Array.from({ length: 60 }, (_, i) => ({ answer: 100, updatedAt: now - 600 + i * 10 }));
+        setRounds(feed, rounds);
+        [, coveredPeriod] = await readTwap(PERIOD);
+      });
+      then('only the max amount of rounds are examined', async () => {
+        const maxRounds = await reader.MAX_TWAP_ROUNDS();
+        expect(feed.getRoundData).to.have.callCount(maxRounds.toNumber() - 1);
+        expect(coveredPeriod).to.equal(maxRounds.mul(10).add(600 - 60 * 10));
+      });
+    });
+    function setRounds(aggregator: FakeContract<IAggregatorProxy>, rounds: { answer: number; updatedAt: number }[]) {
+      rounds.forEach(({ answer, updatedAt }, i) => {
+        aggregator.getRoundData.whenCalledWith(i + 1).returns([i + 1, answer, updatedAt, updatedAt, i + 1]);
+      });
+      const { answer, updatedAt } = rounds[rounds.length - 1];
+      aggregator.latestRoundData.returns([rounds.length, answer, updatedAt, updatedAt, rounds.length]);
+    }
+    async function readTwap(period: number) {
+      // We make sure that the call is executed with a known timestamp
+      await evm.advanceToTimeAndBlock(now);
+      return reader.twap(LINK, USD, period, { blockTag: 'latest' });
+    }
+  });
+
+  describe('latestPrice', () => {
+    given(() => {
+      registry.getIntermediates.returns([ETH, USD]);
+    });
+    when('there is no direct feed or route through an intermediate', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'latestPrice',
+          args: [AAVE, USD],
+          message: 'FeedNotFound',
+        });
+      });
+    });
+    when('there is a direct feed', () => {
+      given(() => {
+        registry.getAssignedFeed.whenCalledWith(LINK, USD).returns(assignedFeed(feed.address));
+        feed.decimals.returns(8);
+        feed.latestRoundData.returns([1, 7e8, 10, 20, 1]);
+      });
+      then('its answer is returned', async () => {
+        const [answer, decimals, updatedAt] = await reader.latestPrice(LINK, USD);
+        expect(answer).to.equal(7e8);
+        expect(decimals).to.equal(8);
+        expect(updatedAt).to.equal(20);
+      });
+    });
+    when('feed reports a non positive answer', () => {
+      given(() => {
+        registry.getAssignedFeed.whenCalledWith(LINK, USD).returns(assignedFeed(feed.address));
+        feed.latestRoundData.returns([1, 0, 10, 20, 1]);
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'latestPrice',
+          args: [LINK, USD],
+          message: 'InvalidAnswer',
+        });
+      });
+    });
+    when('the only feed for the pair serves it by inversion', () => {
+      given(() => {
+        registry.getAssignedFeed.whenCalledWith(LINK, USD).returns({ ...assignedFeed(feed.address), isInverted: true });
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'latestPrice',
+          args: [LINK, USD],
+          message: 'FeedNotFound',
+        });
+      });
+    });
+    when('price can be derived by multiplying through an intermediate', () => {
+      given(() => {
+        registry.getAssignedFeed.whenCalledWith(AAVE, ETH).returns(assignedFeed(fallbackFeed.address));
+        registry.getAssignedFeed.whenCalledWith(ETH, USD).returns(assignedFeed(feed.address));
+        fallbackFeed.decimals.returns(18);
+        fallbackFeed.latestRoundData.returns([1, utils.parseEther('0.05'), 10, 30, 1]);
+        feed.decimals.returns(8);
+        feed.latestRoundData.returns([1, 2000e8, 10, 20, 1]);
+      });
+      then('price is calculated with the greatest amount of decimals', async () => {
+        const [answer, decimals, updatedAt] = await reader.latestPrice(AAVE, USD);
+        expect(answer).to.equal(utils.parseEther('100'));
+        expect(decimals).to.equal(18);
+        expect(updatedAt).to.equal(20);
+      });
+    });
+    when('price can be derived by dividing through an intermediate', () => {
+      given(() => {
+        registry.getAssignedFeed.whenCalledWith(LINK, USD).returns(assignedFeed(fallbackFeed.address));
+        registry.getAssignedFeed.whenCalledWith(ETH, USD).returns(assignedFeed(feed.address));
+        fallbackFeed.decimals.returns(8);
+        fallbackFeed.latestRoundData.returns([1, 7e8, 10, 15, 1]);
+        feed.decimals.returns(8);
+        feed.latestRoundData.returns([1, 2000e8, 10, 20, 1]);
+      });
+      then('price is calculated correctly', async () => {
+        const [answer, decimals, updatedAt] = await reader.latestPrice(LINK, ETH);
+        expect(answer).to.equal(0.0035e8);
+        expect(decimals).to.equal(8);
+        expect(updatedAt).to.equal(15);
+      });
+    });
+  });
+
+  describe('latestPriceWithPrecision', () => {
+    given(() => {
+      registry.getAssignedFeed.whenCalledWith(LINK, ETH).returns(assignedFeed(feed.address));
+      registry.getAssignedFeed.whenCalledWith(ETH, LINK).returns({ ...assignedFeed(feed.address), isInverted: true });
+      feed.decimals.returns(18);
+      feed.latestRoundData.returns([1, utils.parseEther('0.005'), 10, 20, 1]);
+    });
+    when('pair is not served', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'latestPriceWithPrecision',
+          args: [LINK, USD, 18],
+          message: 'FeedNotFound',
+        });
+      });
+    });
+    when('precision is too big', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: reader,
+          func: 'latestPriceWithPrecision',
+          args: [ETH, LINK, 37],
+          message: 'InvalidPrecision',
+        });
+      });
+    });
+    when('reading an inverted pair with the max precision', () => {
+      then('answer is inverted without overflowing', async () => {
+        const [answer] = await reader.latestPriceWithPrecision(ETH, LINK, 36);
+        expect(answer).to.equal(utils.parseUnits('200', 36));
+      });
+    });
+    when('reading an assigned pair with less decimals', () => {
+      then('answer is scaled down', async () => {
+        const [answer, updatedAt] = await reader.latestPriceWithPrecision(LINK, ETH, 8);
+        expect(answer).to.equal(0.005e8);
+        expect(updatedAt).to.equal(20);
+      });
+    });
+    when('reading an assigned pair with more decimals', () => {
+      then('answer is scaled up', async () => {
+        const [answer] = await reader.latestPriceWithPrecision(LINK, ETH, 20);
+        expect(answer).to.equal(utils.parseUnits('0.005', 20));
+      });
+    });
+    when('reading an inverted pair', () => {
+      then('answer is inverted', async () => {
+        const [answer, updatedAt] = await reader.latestPriceWithPrecision(ETH, LINK, 8);
+        expect(answer).to.equal(200e8);
+        expect(updatedAt).to.equal(20);
+      });
+    });
+  });
+
+  describe('exportPairs', () => {
+    given(() => {
+      registry.getAssignedPairs.returns([
+        { base: LINK, quote: USD, ...assignedFeed(feed.address), heartbeat: HEARTBEAT, deviationThreshold: 5000 },
+        { base: USD, quote: LINK, ...assignedFeed(feed.address), isInverted: true },
+        { base: LINK, quote: ETH, ...assignedFeed(fallbackFeed.address), heartbeat: 0 },
+      ]);
+      registry.getAssignedFeed.whenCalledWith(USD, LINK).returns({ ...assignedFeed(feed.address), isInverted: true });
+      registry.getAssignedFeed.whenCalledWith(ETH, LINK).returns(assignedFeed(constants.ZERO_ADDRESS));
+      registry.getMedianMinSources.whenCalledWith(LINK, USD).returns(2);
+      registry.getFallbackFeeds.whenCalledWith(LINK, USD).returns([anotherFallbackFeed.address]);
+    });
+    when('exporting a page of pairs', () => {
+      let exported: Awaited<ReturnType<ChainlinkRegistryReader['exportPairs']>>;
+      given(async () => {
+        exported = await reader.exportPairs(0, 3);
+      });
+      then('the registry is asked for the same page', () => {
+        expect(registry.getAssignedPairs).to.have.been.calledOnceWith(0, 3);
+      });
+      then('pairs served by inversion are not exported on their own', () => {
+        expect(exported.length).to.equal(2);
+        expect(exported[0].base).to.equal(LINK);
+        expect(exported[0].quote).to.equal(USD);
+        expect(exported[1].base).to.equal(LINK);
+        expect(exported[1].quote).to.equal(ETH);
+      });
+      then('configuration is exported', () => {
+        expect(exported[0].feed).to.equal(feed.address);
+        expect(exported[0].heartbeat).to.equal(HEARTBEAT);
+        expect(exported[0].deviationThreshold).to.equal(5000);
+        expect(exported[0].medianMinSources).to.equal(2);
+        expect(exported[0].fallbackFeeds).to.eql([anotherFallbackFeed.address]);
+        expect(exported[1].feed).to.equal(fallbackFeed.address);
+        expect(exported[1].heartbeat).to.equal(0);
+        expect(exported[1].medianMinSources).to.equal(0);
+        expect(exported[1].fallbackFeeds).to.eql([]);
+      });
+      then('inverse support is exported', () => {
+        expect(exported[0].servesInverse).to.be.true;
+        expect(exported[1].servesInverse).to.be.false;
+      });
+    });
+  });
+
+  describe('exportConfig', () => {
+    given(() => {
+      registry.getIntermediates.returns([ETH, USD]);
+      registry.getValidationOverrides.returns([fallbackFeed.address]);
+      registry.assignmentDelay.returns(HEARTBEAT);
+    });
+    when('exporting the configuration', () => {
+      then('the global configuration is returned', async () => {
+        const { intermediates, validationOverrides, assignmentDelay } = await reader.exportConfig();
+        expect(intermediates).to.eql([ETH, USD]);
+        expect(validationOverrides).to.eql([fallbackFeed.address]);
+        expect(assignmentDelay).to.equal(HEARTBEAT);
+      });
+    });
+  });
+
+  describe('sequencer checks', () => {
+    const GRACE_PERIOD = 60 * 60;
+    let sequencerUptimeFeed: FakeContract<IAggregatorProxy>;
+    let l2Reader: ChainlinkRegistryReader;
+    given(async () => {
+      const [, superAdmin, admin] = await ethers.getSigners();
+      sequencerUptimeFeed = await smock.fake('IAggregatorProxy');
+      const registryFactory = await ethers.getContractFactory('contracts/ChainlinkRegistry/ChainlinkRegistry.sol:ChainlinkRegistry');
+      const l2Registry = await registryFactory.deploy(superAdmin.address, [admin.address], sequencerUptimeFeed.address, GRACE_PERIOD);
+      l2Reader = await factory.deploy(l2Registry.address);
+    });
+    when('sequencer is down', () => {
+      given(() => sequencerUptimeFeed.latestRoundData.returns([1, 1, now - GRACE_PERIOD * 2, now, 1]));
+      then("reverts with the registry's message", async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: l2Reader,
+          func: 'latestRoundDataWithFallback',
+          args: [LINK, USD],
+          message: 'SequencerDown',
+        });
+      });
+    });
+    when('sequencer was restarted recently', () => {
+      given(() => sequencerUptimeFeed.latestRoundData.returns([1, 0, now - GRACE_PERIOD / 2, now, 1]));
+      then("reverts with the registry's message", async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: l2Reader,
+          func: 'latestRoundDataWithFallback',
+          args: [LINK, USD],
+          message: 'GracePeriodNotOver',
+        });
+      });
+    });
+    when('sequencer is up and the grace period is over', () => {
+      given(() => sequencerUptimeFeed.latestRoundData.returns([1, 0, now - GRACE_PERIOD * 2, now, 1]));
+      then('the read goes on', async () => {
+        // The pair has no feeds in the registry, so getting to this error means that the sequencer check passed
+        await behaviours.txShouldRevertWithMessage({
+          contract: l2Reader,
+          func: 'latestRoundDataWithFallback',
+          args: [LINK, USD],
+          message: 'FeedNotFound',
+        });
+      });
+    });
+  });
+
+  function assignFeeds({ assigned, fallbacks, isInverted }: { assigned: string; fallbacks: string[]; isInverted?: boolean }) {
+    registry.getAssignedFeed.returns({ ...assignedFeed(assigned), isInverted: isInverted ?? false });
+    registry.getHeartbeat.returns(HEARTBEAT);
+    registry.getFallbackFeeds.returns(fallbacks);
+  }
+
+  function assignedFeed(address: string) {
+    return { feed: address, isProxy: false, isInverted: false, decimals: 0, heartbeat: HEARTBEAT, deviationThreshold: 0 };
+  }
+
+  function setAnswer(aggregator: FakeContract<IAggregatorProxy>, answer: BigNumberish, decimals: number) {
+    aggregator.latestRoundData.returns([1, answer, now, now, 1]);
+    aggregator.decimals.returns(decimals);
+  }
+
+  async function expectSource(source: string) {
+    const result = await reader.latestRoundDataWithFallback(LINK, USD);
+    expect(result._source).to.equal(source);
+    expect(result._answer).to.not.equal(0);
+  }
+});
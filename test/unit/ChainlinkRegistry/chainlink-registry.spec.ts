@@ -2,132 +2,1612 @@ import chai, { expect } from 'chai';
 import { ethers } from 'hardhat';
 import { behaviours, constants } from '@test-utils';
 import { contract, given, then, when } from '@test-utils/bdd';
-import { snapshot } from '@test-utils/evm';
+import evm, { snapshot } from '@test-utils/evm';
 import { AggregatorV2V3Interface, ChainlinkRegistry, ChainlinkRegistry__factory, IAggregatorProxy, IERC20 } from '@typechained';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { FakeContract, smock } from '@defi-wonderland/smock';
 import { TransactionResponse } from '@ethersproject/abstract-provider';
-import { BigNumber } from 'ethers';
+import { BigNumber, BigNumberish, utils } from 'ethers';
 import { readArgFromEventOrFail } from '@test-utils/event-utils';
+import { Denominations } from '@sdk/denominations';
 
 chai.use(smock.matchers);
 
 contract('ChainlinkRegistry', () => {
   const LINK = '0xa36085F69e2889c224210F603D836748e7dC0088';
-  const USD = '0x0000000000000000000000000000000000000348';
+  const USD = Denominations.USD;
+  const ETH = Denominations.ETH;
+  const AAVE = '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9';
 
   let superAdmin: SignerWithAddress, admin: SignerWithAddress;
-  let feed: FakeContract<IAggregatorProxy>;
+  let feed: FakeContract<IAggregatorProxy>, anotherFeed: FakeContract<IAggregatorProxy>, nonProxyFeed: FakeContract<IAggregatorProxy>;
   let factory: ChainlinkRegistry__factory;
   let registry: ChainlinkRegistry;
   let token: FakeContract<IERC20>;
-  let superAdminRole: string, adminRole: string;
+  let superAdminRole: string, adminRole: string, emergencyRole: string;
   let snapshotId: string;
 
+  const DELAY = 60 * 60 * 24;
+  const LIVE_ROUND = [0, 1, 0, 0, 0];
+  const FEEDS_TO_QUEUE = () => [{ base: LINK, quote: USD, feed: feed.address }];
+  const queuedId = () =>
+    utils.keccak256(utils.defaultAbiCoder.encode(['tuple(address base, address quote, address feed)[]'], [FEEDS_TO_QUEUE()]));
+  const FALLBACK_FEEDS_TO_QUEUE = () => [{ base: LINK, quote: USD, feeds: [anotherFeed.address] }];
+  const queuedFallbackId = () =>
+    utils.keccak256(
+      utils.defaultAbiCoder.encode(
+        ['bytes4', 'tuple(address base, address quote, address[] feeds)[]'],
+        [registry.interface.getSighash('setFallbackFeeds'), FALLBACK_FEEDS_TO_QUEUE()]
+      )
+    );
+
   before('Setup accounts and contracts', async () => {
     [, superAdmin, admin] = await ethers.getSigners();
     factory = await ethers.getContractFactory('contracts/ChainlinkRegistry/ChainlinkRegistry.sol:ChainlinkRegistry');
-    registry = await factory.deploy(superAdmin.address, [admin.address]);
+    registry = await factory.deploy(superAdmin.address, [admin.address], constants.ZERO_ADDRESS, 0);
     superAdminRole = await registry.SUPER_ADMIN_ROLE();
     adminRole = await registry.ADMIN_ROLE();
+    emergencyRole = await registry.EMERGENCY_ROLE();
     feed = await smock.fake('IAggregatorProxy');
+    anotherFeed = await smock.fake('IAggregatorProxy');
+    nonProxyFeed = await smock.fake('IAggregatorProxy');
+    nonProxyFeed.aggregator.reverts();
+    nonProxyFeed.latestRoundData.returns(LIVE_ROUND);
     token = await smock.fake('IERC20');
     token.transfer.returns(true);
     snapshotId = await snapshot.take();
   });
 
-  beforeEach('Deploy and configure', async () => {
-    await snapshot.revert(snapshotId);
+  beforeEach('Deploy and configure', async () => {
+    await snapshot.revert(snapshotId);
+    feed.latestRoundData.reset();
+    feed.latestRoundData.returns(LIVE_ROUND);
+    feed.aggregator.reset();
+    feed.decimals.reset();
+    feed.getRoundData.reset();
+    anotherFeed.latestRoundData.reset();
+    anotherFeed.latestRoundData.returns(LIVE_ROUND);
+    anotherFeed.decimals.reset();
+    anotherFeed.getRoundData.reset();
+  });
+
+  describe('constructor', () => {
+    when('super admin is zero address', () => {
+      then('tx is reverted with reason error', async () => {
+        await behaviours.deployShouldRevertWithMessage({
+          contract: factory,
+          args: [constants.ZERO_ADDRESS, [], constants.ZERO_ADDRESS, 0],
+          message: 'ZeroAddress',
+        });
+      });
+    });
+    when('all arguments are valid', () => {
+      then('super admin is set correctly', async () => {
+        const hasRole = await registry.hasRole(superAdminRole, superAdmin.address);
+        expect(hasRole).to.be.true;
+      });
+      then('initial admins are set correctly', async () => {
+        const hasRole = await registry.hasRole(adminRole, admin.address);
+        expect(hasRole).to.be.true;
+      });
+      then('super admin role is set as super admin role', async () => {
+        const admin = await registry.getRoleAdmin(superAdminRole);
+        expect(admin).to.equal(superAdminRole);
+      });
+      then('sequencer uptime feed is set correctly', async () => {
+        expect(await registry.sequencerUptimeFeed()).to.equal(constants.ZERO_ADDRESS);
+        expect(await registry.gracePeriod()).to.equal(0);
+      });
+      then('manager is deployed', async () => {
+        const manager = await registry.manager();
+        expect(await ethers.provider.getCode(manager)).to.not.equal('0x');
+      });
+      then('super admin role is set as admin role', async () => {
+        const admin = await registry.getRoleAdmin(adminRole);
+        expect(admin).to.equal(superAdminRole);
+      });
+      then('super admin role is set as emergency role admin', async () => {
+        const admin = await registry.getRoleAdmin(emergencyRole);
+        expect(admin).to.equal(superAdminRole);
+      });
+    });
+  });
+
+  describe('assignFeeds', () => {
+    when('setting a feed', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+      });
+      then('it is set correctly', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(feed.address);
+        expect(assignedFeed.isProxy).to.equal(true);
+      });
+      then('event is emitted', async () => {
+        await expectEventToHaveBeenEmitted(tx, feed.address);
+      });
+      then('pair event is emitted', async () => {
+        await expect(tx).to.emit(registry, 'FeedAssigned').withArgs(LINK, USD, feed.address, constants.ZERO_ADDRESS, true);
+      });
+    });
+    when('replacing a feed', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        tx = await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: nonProxyFeed.address }]);
+      });
+      then('pair event is emitted with the previous feed', async () => {
+        await expect(tx).to.emit(registry, 'FeedAssigned').withArgs(LINK, USD, nonProxyFeed.address, feed.address, false);
+      });
+    });
+    when('setting a feed after configuring the pair', () => {
+      given(async () => {
+        feed.decimals.returns(8);
+        await registry.connect(admin).setHeartbeats([{ base: LINK, quote: USD, heartbeat: 3600 }]);
+        await registry.connect(admin).setDeviationThresholds([{ base: LINK, quote: USD, deviationThreshold: 5000 }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+      });
+      then('the full record is returned', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(feed.address);
+        expect(assignedFeed.decimals).to.equal(8);
+        expect(assignedFeed.heartbeat).to.equal(3600);
+        expect(assignedFeed.deviationThreshold).to.equal(5000);
+      });
+    });
+    when('setting a feed that is not a proxy', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: nonProxyFeed.address }]);
+      });
+      then('it is set correctly', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(nonProxyFeed.address);
+        expect(assignedFeed.isProxy).to.equal(false);
+      });
+      then('event is emitted', async () => {
+        await expectEventToHaveBeenEmitted(tx, nonProxyFeed.address);
+      });
+    });
+    when('removing a feed', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        tx = await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: constants.ZERO_ADDRESS }]);
+      });
+      then('feed is removed correctly', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(constants.ZERO_ADDRESS);
+        expect(assignedFeed.isProxy).to.equal(false);
+      });
+      then('event is emitted', async () => {
+        await expectEventToHaveBeenEmitted(tx, constants.ZERO_ADDRESS);
+      });
+      then('removal event is emitted', async () => {
+        await expect(tx).to.emit(registry, 'FeedRemoved').withArgs(LINK, USD, feed.address);
+      });
+      then('assignment event is not emitted', async () => {
+        await expect(tx).to.not.emit(registry, 'FeedAssigned');
+      });
+    });
+    when('removing a pair that had no feed', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: constants.ZERO_ADDRESS }]);
+      });
+      then('removal event is not emitted', async () => {
+        await expect(tx).to.not.emit(registry, 'FeedRemoved');
+      });
+    });
+    when('setting a feed that is not a contract', () => {
+      then('reverts with message', async () => {
+        await expectAssignmentToRevertWithInvalidFeed(constants.NOT_ZERO_ADDRESS);
+      });
+    });
+    when('setting a feed that reverts', () => {
+      given(() => anotherFeed.latestRoundData.reverts());
+      then('reverts with message', async () => {
+        await expectAssignmentToRevertWithInvalidFeed(anotherFeed.address);
+      });
+    });
+    when('setting a feed that reports a zero answer', () => {
+      given(() => anotherFeed.latestRoundData.returns([1, 0, 0, 0, 1]));
+      then('reverts with message', async () => {
+        await expectAssignmentToRevertWithInvalidFeed(anotherFeed.address);
+      });
+    });
+    when('setting a feed that reports a negative answer', () => {
+      given(() => anotherFeed.latestRoundData.returns([1, -1, 0, 0, 1]));
+      then('reverts with message', async () => {
+        await expectAssignmentToRevertWithInvalidFeed(anotherFeed.address);
+      });
+    });
+    when('setting a feed that is not live yet, but has a validation override', () => {
+      given(async () => {
+        anotherFeed.latestRoundData.returns([0, 0, 0, 0, 0]);
+        await registry.connect(admin).setValidationOverrides([{ feed: anotherFeed.address, enabled: true }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: anotherFeed.address }]);
+      });
+      then('it is set correctly', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(anotherFeed.address);
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'assignFeeds',
+      params: () => [[{ base: constants.NOT_ZERO_ADDRESS, quote: constants.NOT_ZERO_ADDRESS, feed: constants.NOT_ZERO_ADDRESS }]],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+    async function expectAssignmentToRevertWithInvalidFeed(feed: string) {
+      await behaviours.txShouldRevertWithMessage({
+        contract: registry.connect(admin),
+        func: 'assignFeeds',
+        args: [[{ base: LINK, quote: USD, feed }]],
+        message: `InvalidFeed(["${LINK}", "${USD}", "${feed}"])`,
+      });
+    }
+    async function expectEventToHaveBeenEmitted(tx: TransactionResponse, feed: string) {
+      const feeds: { base: string; quote: string; feed: string }[] = await readArgFromEventOrFail(tx, 'FeedsModified', 'feeds');
+      expect(feeds.length).to.equal(1);
+      expect(feeds[0].base).to.equal(LINK);
+      expect(feeds[0].quote).to.equal(USD);
+      expect(feeds[0].feed).to.equal(feed);
+    }
+  });
+
+  describe('setValidationOverrides', () => {
+    when('setting a validation override', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(admin).setValidationOverrides([{ feed: feed.address, enabled: true }]);
+      });
+      then('it is set correctly', async () => {
+        expect(await registry.hasValidationOverride(feed.address)).to.be.true;
+        expect(await registry.getValidationOverrides()).to.eql([feed.address]);
+      });
+      then('event is emitted', async () => {
+        const validationOverrides: { feed: string; enabled: boolean }[] = await readArgFromEventOrFail(
+          tx,
+          'ValidationOverridesModified',
+          'validationOverrides'
+        );
+        expect(validationOverrides.length).to.equal(1);
+        expect(validationOverrides[0].feed).to.equal(feed.address);
+        expect(validationOverrides[0].enabled).to.be.true;
+      });
+    });
+    when('removing a validation override', () => {
+      given(async () => {
+        await registry.connect(admin).setValidationOverrides([{ feed: feed.address, enabled: true }]);
+        await registry.connect(admin).setValidationOverrides([{ feed: feed.address, enabled: false }]);
+      });
+      then('it is removed correctly', async () => {
+        expect(await registry.hasValidationOverride(feed.address)).to.be.false;
+        expect(await registry.getValidationOverrides()).to.be.empty;
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'setValidationOverrides',
+      params: () => [[{ feed: feed.address, enabled: true }]],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('setAssignmentDelay', () => {
+    when('setting a delay', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(superAdmin).setAssignmentDelay(DELAY);
+      });
+      then('it is set correctly', async () => {
+        expect(await registry.assignmentDelay()).to.equal(DELAY);
+      });
+      then('event is emitted', async () => {
+        await expect(tx).to.emit(registry, 'AssignmentDelayModified').withArgs(DELAY);
+      });
+      then('feeds can no longer be assigned directly', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'assignFeeds',
+          args: [[{ base: LINK, quote: USD, feed: feed.address }]],
+          message: 'AssignmentDelayEnabled',
+        });
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'setAssignmentDelay',
+      params: [DELAY],
+      role: () => superAdminRole,
+      addressWithRole: () => superAdmin,
+    });
+  });
+
+  describe('importPairs', () => {
+    const PAIR_STATE = () => ({
+      base: LINK,
+      quote: USD,
+      feed: feed.address,
+      heartbeat: 3600,
+      deviationThreshold: 5000,
+      medianMinSources: 2,
+      servesInverse: true,
+      fallbackFeeds: [anotherFeed.address],
+    });
+    when('importing a pair', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(superAdmin).importPairs([PAIR_STATE()]);
+      });
+      then('feed is assigned with its configuration', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(feed.address);
+        expect(assignedFeed.isProxy).to.be.true;
+        expect(assignedFeed.heartbeat).to.equal(3600);
+        expect(assignedFeed.deviationThreshold).to.equal(5000);
+      });
+      then('median aggregation and fallback feeds are set', async () => {
+        expect(await registry.getMedianMinSources(LINK, USD)).to.equal(2);
+        expect(await registry.getFallbackFeeds(LINK, USD)).to.eql([anotherFeed.address]);
+      });
+      then('inverse pair is served', async () => {
+        const assignedFeed = await registry.getAssignedFeed(USD, LINK);
+        expect(assignedFeed.feed).to.equal(feed.address);
+        expect(assignedFeed.isInverted).to.be.true;
+        expect(await registry.assignedPairsCount()).to.equal(2);
+      });
+      then('event is emitted', async () => {
+        const pairs: { base: string; quote: string; feed: string; fallbackFeeds: string[] }[] = await readArgFromEventOrFail(
+          tx,
+          'PairsImported',
+          'pairs'
+        );
+        expect(pairs.length).to.equal(1);
+        expect(pairs[0].base).to.equal(LINK);
+        expect(pairs[0].quote).to.equal(USD);
+        expect(pairs[0].feed).to.equal(feed.address);
+        expect(pairs[0].fallbackFeeds).to.eql([anotherFeed.address]);
+      });
+    });
+    when('importing a feed that would not pass validation', () => {
+      given(async () => {
+        feed.latestRoundData.reverts();
+        await registry.connect(superAdmin).importPairs([PAIR_STATE()]);
+      });
+      then('feed is assigned anyway', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(feed.address);
+      });
+    });
+    when('assignment delay is enabled', () => {
+      given(async () => {
+        await registry.connect(superAdmin).setAssignmentDelay(DELAY);
+      });
+      then('tx reverts', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(superAdmin),
+          func: 'importPairs',
+          args: [[PAIR_STATE()]],
+          message: 'AssignmentDelayEnabled',
+        });
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'importPairs',
+      params: () => [[PAIR_STATE()]],
+      role: () => superAdminRole,
+      addressWithRole: () => superAdmin,
+    });
+  });
+
+  describe('queueFeeds', () => {
+    when('feeds are queued', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(superAdmin).setAssignmentDelay(DELAY);
+        tx = await registry.connect(admin).queueFeeds(FEEDS_TO_QUEUE());
+      });
+      then('they can be executed after the delay', async () => {
+        const { timestamp } = await ethers.provider.getBlock(tx.blockNumber!);
+        expect(await registry.getQueuedFeedsExecutableAt(queuedId())).to.equal(timestamp + DELAY);
+      });
+      then('feeds are not assigned yet', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(constants.ZERO_ADDRESS);
+      });
+      then('event is emitted', async () => {
+        expect(await readArgFromEventOrFail(tx, 'FeedsQueued', 'id')).to.equal(queuedId());
+      });
+      then('they cannot be queued again', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'queueFeeds',
+          args: [FEEDS_TO_QUEUE()],
+          message: 'FeedsAlreadyQueued',
+        });
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'queueFeeds',
+      params: () => [FEEDS_TO_QUEUE()],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('executeQueuedFeeds', () => {
+    given(async () => {
+      await registry.connect(superAdmin).setAssignmentDelay(DELAY);
+    });
+    when('feeds were not queued', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'executeQueuedFeeds',
+          args: [FEEDS_TO_QUEUE()],
+          message: 'FeedsNotQueued',
+        });
+      });
+    });
+    when('delay has not passed yet', () => {
+      given(async () => {
+        await registry.connect(admin).queueFeeds(FEEDS_TO_QUEUE());
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'executeQueuedFeeds',
+          args: [FEEDS_TO_QUEUE()],
+          message: 'AssignmentDelayNotOver',
+        });
+      });
+    });
+    when('delay has passed', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(admin).queueFeeds(FEEDS_TO_QUEUE());
+        await evm.advanceTimeAndBlock(DELAY);
+        tx = await registry.connect(admin).executeQueuedFeeds(FEEDS_TO_QUEUE());
+      });
+      then('feeds are assigned', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(feed.address);
+      });
+      then('queued feeds are removed', async () => {
+        expect(await registry.getQueuedFeedsExecutableAt(queuedId())).to.equal(0);
+      });
+      then('event is emitted', async () => {
+        await expect(tx).to.emit(registry, 'QueuedFeedsExecuted').withArgs(queuedId());
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'executeQueuedFeeds',
+      params: () => [FEEDS_TO_QUEUE()],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('cancelQueuedFeeds', () => {
+    when('feeds were not queued', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(superAdmin),
+          func: 'cancelQueuedFeeds',
+          args: [queuedId()],
+          message: 'FeedsNotQueued',
+        });
+      });
+    });
+    when('feeds are cancelled', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(admin).queueFeeds(FEEDS_TO_QUEUE());
+        tx = await registry.connect(superAdmin).cancelQueuedFeeds(queuedId());
+      });
+      then('they can no longer be executed', async () => {
+        expect(await registry.getQueuedFeedsExecutableAt(queuedId())).to.equal(0);
+      });
+      then('event is emitted', async () => {
+        await expect(tx).to.emit(registry, 'QueuedFeedsCancelled').withArgs(queuedId());
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'cancelQueuedFeeds',
+      params: () => [queuedId()],
+      role: () => superAdminRole,
+      addressWithRole: () => superAdmin,
+    });
+  });
+
+  describe('removeFeeds', () => {
+    given(async () => {
+      await registry.connect(superAdmin).grantRole(emergencyRole, superAdmin.address);
+    });
+    when('feeds are removed', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        await registry.connect(admin).setFallbackFeeds([{ base: LINK, quote: USD, feeds: [anotherFeed.address] }]);
+        await registry.connect(admin).setMedianAggregations([{ base: LINK, quote: USD, minSources: 2 }]);
+        await registry.connect(superAdmin).setAssignmentDelay(DELAY);
+        tx = await registry.connect(superAdmin).removeFeeds([{ base: LINK, quote: USD }]);
+      });
+      then('they are removed immediately', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(constants.ZERO_ADDRESS);
+      });
+      then('fallback feeds and median aggregation are removed too', async () => {
+        expect(await registry.getFallbackFeeds(LINK, USD)).to.be.empty;
+        expect(await registry.getMedianMinSources(LINK, USD)).to.equal(0);
+      });
+      then('event is emitted', async () => {
+        const feeds: { base: string; quote: string; feed: string }[] = await readArgFromEventOrFail(tx, 'FeedsModified', 'feeds');
+        expect(feeds).to.have.lengthOf(1);
+        expect(feeds[0].feed).to.equal(constants.ZERO_ADDRESS);
+      });
+      then('removal event is emitted', async () => {
+        await expect(tx).to.emit(registry, 'FeedRemoved').withArgs(LINK, USD, feed.address);
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'removeFeeds',
+      params: () => [[{ base: LINK, quote: USD }]],
+      role: () => emergencyRole,
+      addressWithRole: () => superAdmin,
+    });
+  });
+
+  describe('proposeFeed', () => {
+    when('proposing the feed that is already assigned', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'proposeFeed',
+          args: [LINK, USD, feed.address],
+          message: 'FeedAlreadyAssigned',
+        });
+      });
+    });
+    when('proposing a new feed', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: nonProxyFeed.address }]);
+        tx = await registry.connect(admin).proposeFeed(LINK, USD, feed.address);
+      });
+      then('it is set as proposed', async () => {
+        expect(await registry.getProposedFeed(LINK, USD)).to.equal(feed.address);
+      });
+      then('assigned feed is not modified', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(nonProxyFeed.address);
+      });
+      then('event is emitted', async () => {
+        await expect(tx).to.emit(registry, 'FeedProposed').withArgs(LINK, USD, feed.address, nonProxyFeed.address, admin.address);
+      });
+    });
+    when('proposing the zero address', () => {
+      given(async () => {
+        await registry.connect(admin).proposeFeed(LINK, USD, feed.address);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: nonProxyFeed.address }]);
+        await registry.connect(admin).proposeFeed(LINK, USD, constants.ZERO_ADDRESS);
+      });
+      then('previous proposal is discarded', async () => {
+        expect(await registry.getProposedFeed(LINK, USD)).to.equal(constants.ZERO_ADDRESS);
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'proposeFeed',
+      params: () => [LINK, USD, constants.NOT_ZERO_ADDRESS],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('confirmFeed', () => {
+    when('assignment delay has not passed since the proposal', () => {
+      given(async () => {
+        await registry.connect(superAdmin).setAssignmentDelay(DELAY);
+        await registry.connect(admin).proposeFeed(LINK, USD, feed.address);
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'confirmFeed',
+          args: [LINK, USD, feed.address],
+          message: 'AssignmentDelayNotOver',
+        });
+      });
+    });
+    when('there is no proposal', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'confirmFeed',
+          args: [LINK, USD, constants.ZERO_ADDRESS],
+          message: 'InvalidProposedFeed',
+        });
+      });
+    });
+    when('confirming a feed that was not proposed', () => {
+      given(async () => {
+        await registry.connect(admin).proposeFeed(LINK, USD, feed.address);
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'confirmFeed',
+          args: [LINK, USD, nonProxyFeed.address],
+          message: 'InvalidProposedFeed',
+        });
+      });
+    });
+    when('confirming the proposed feed', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: nonProxyFeed.address }]);
+        await registry.connect(admin).proposeFeed(LINK, USD, feed.address);
+        tx = await registry.connect(admin).confirmFeed(LINK, USD, feed.address);
+      });
+      then('it is assigned correctly', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.feed).to.equal(feed.address);
+        expect(assignedFeed.isProxy).to.equal(true);
+      });
+      then('proposal is removed', async () => {
+        expect(await registry.getProposedFeed(LINK, USD)).to.equal(constants.ZERO_ADDRESS);
+      });
+      then('event is emitted', async () => {
+        await expect(tx).to.emit(registry, 'FeedConfirmed').withArgs(LINK, USD, feed.address, nonProxyFeed.address, 2, admin.address);
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'confirmFeed',
+      params: () => [LINK, USD, constants.NOT_ZERO_ADDRESS],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('phases', () => {
+    when('no feed was ever assigned', () => {
+      then('current phase is zero', async () => {
+        expect(await registry.getCurrentPhaseId(LINK, USD)).to.equal(0);
+      });
+      then('there is no feed for any round', async () => {
+        expect(await registry.getRoundFeed(LINK, USD, 10)).to.equal(constants.ZERO_ADDRESS);
+      });
+      then('there are no previous or next rounds', async () => {
+        expect(await registry.getPreviousRoundId(LINK, USD, 10)).to.equal(0);
+        expect(await registry.getNextRoundId(LINK, USD, 10)).to.equal(0);
+      });
+    });
+    when('the same feed is assigned twice', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+      });
+      then('only one phase is created', async () => {
+        expect(await registry.getCurrentPhaseId(LINK, USD)).to.equal(1);
+      });
+    });
+    when('a feed is replaced', () => {
+      given(async () => {
+        setLatestRound(feed, 10);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        setLatestRound(feed, 15);
+        setLatestRound(anotherFeed, 100);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: anotherFeed.address }]);
+        setLatestRound(anotherFeed, 105);
+      });
+      then('a new phase is started', async () => {
+        expect(await registry.getCurrentPhaseId(LINK, USD)).to.equal(2);
+      });
+      then('phase feeds are returned correctly', async () => {
+        expect(await registry.getPhaseFeed(LINK, USD, 1)).to.equal(feed.address);
+        expect(await registry.getPhaseFeed(LINK, USD, 2)).to.equal(anotherFeed.address);
+        expect(await registry.getPhaseFeed(LINK, USD, 3)).to.equal(constants.ZERO_ADDRESS);
+      });
+      then('previous phase is closed with the last round of the replaced feed', async () => {
+        const phase = await registry.getPhase(LINK, USD, 1);
+        expect(phase.phaseId).to.equal(1);
+        expect(phase.startingAggregatorRoundId).to.equal(10);
+        expect(phase.endingAggregatorRoundId).to.equal(15);
+      });
+      then('current phase ends with the latest round of the current feed', async () => {
+        const [startingRoundId, endingRoundId] = await registry.getPhaseRange(LINK, USD, 2);
+        expect(startingRoundId).to.equal(100);
+        expect(endingRoundId).to.equal(105);
+      });
+      then('round feeds are resolved correctly', async () => {
+        expect(await registry.getRoundFeed(LINK, USD, 5)).to.equal(constants.ZERO_ADDRESS);
+        expect(await registry.getRoundFeed(LINK, USD, 12)).to.equal(feed.address);
+        expect(await registry.getRoundFeed(LINK, USD, 50)).to.equal(constants.ZERO_ADDRESS);
+        expect(await registry.getRoundFeed(LINK, USD, 103)).to.equal(anotherFeed.address);
+      });
+      then('previous rounds are resolved correctly', async () => {
+        expect(await registry.getPreviousRoundId(LINK, USD, 10)).to.equal(0);
+        expect(await registry.getPreviousRoundId(LINK, USD, 12)).to.equal(11);
+        expect(await registry.getPreviousRoundId(LINK, USD, 100)).to.equal(15);
+        expect(await registry.getPreviousRoundId(LINK, USD, 103)).to.equal(102);
+      });
+      then('next rounds are resolved correctly', async () => {
+        expect(await registry.getNextRoundId(LINK, USD, 12)).to.equal(13);
+        expect(await registry.getNextRoundId(LINK, USD, 15)).to.equal(100);
+        expect(await registry.getNextRoundId(LINK, USD, 103)).to.equal(104);
+        expect(await registry.getNextRoundId(LINK, USD, 105)).to.equal(0);
+      });
+      then('historical round data is read from the feed of that phase', async () => {
+        await registry.getRoundData(LINK, USD, 12);
+        expect(feed.getRoundData).to.have.been.calledWith(12);
+        expect(anotherFeed.getRoundData).to.not.have.been.called;
+      });
+      then('rounds that are not part of any phase can not be read', async () => {
+        for (const [func, roundId] of [
+          ['getRoundData', 5],
+          ['getAnswer', 50],
+          ['getTimestamp', 50],
+        ] as const) {
+          await behaviours.txShouldRevertWithMessage({
+            contract: registry,
+            func,
+            args: [LINK, USD, roundId],
+            message: 'RoundNotFound',
+          });
+        }
+        expect(feed.getRoundData).to.not.have.been.called;
+        expect(anotherFeed.getRoundData).to.not.have.been.called;
+      });
+    });
+    when('a feed is replaced by one that reports overlapping round ids', () => {
+      given(async () => {
+        setLatestRound(feed, 10);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        setLatestRound(feed, 70);
+        setLatestRound(anotherFeed, 60);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: anotherFeed.address }]);
+        setLatestRound(anotherFeed, 80);
+      });
+      then('rounds that are part of only one phase are resolved correctly', async () => {
+        expect(await registry.getRoundFeed(LINK, USD, 50)).to.equal(feed.address);
+        expect(await registry.getRoundFeed(LINK, USD, 75)).to.equal(anotherFeed.address);
+        expect(await registry.getPreviousRoundId(LINK, USD, 50)).to.equal(49);
+        expect(await registry.getNextRoundId(LINK, USD, 75)).to.equal(76);
+      });
+      then('rounds that are part of both phases can not be resolved', async () => {
+        for (const func of ['getRoundData', 'getAnswer', 'getTimestamp', 'getRoundFeed', 'getPreviousRoundId', 'getNextRoundId'] as const) {
+          await behaviours.txShouldRevertWithMessage({
+            contract: registry,
+            func,
+            args: [LINK, USD, 65],
+            message: 'AmbiguousRound',
+          });
+        }
+        expect(feed.getRoundData).to.not.have.been.called;
+        expect(anotherFeed.getRoundData).to.not.have.been.called;
+      });
+    });
+    when('a feed is assigned again after being replaced', () => {
+      given(async () => {
+        setLatestRound(feed, 10);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        setLatestRound(feed, 15);
+        setLatestRound(anotherFeed, 100);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: anotherFeed.address }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        setLatestRound(feed, 20);
+      });
+      then('rounds shared by the phases of the same feed are resolved to the most recent one', async () => {
+        expect(await registry.getRoundFeed(LINK, USD, 15)).to.equal(feed.address);
+        expect(await registry.getNextRoundId(LINK, USD, 15)).to.equal(16);
+      });
+    });
+    function setLatestRound(feed: FakeContract<IAggregatorProxy>, roundId: number) {
+      feed.latestRoundData.returns([roundId, 1, 0, 0, roundId]);
+    }
+  });
+
+  describe('getProposedFeed', () => {
+    when('there is no proposal', () => {
+      then('zero address is returned', async () => {
+        expect(await registry.getProposedFeed(LINK, USD)).to.equal(constants.ZERO_ADDRESS);
+      });
+    });
+  });
+
+  describe('enumeration', () => {
+    when('no feeds are assigned', () => {
+      then('count is zero', async () => {
+        expect(await registry.assignedPairsCount()).to.equal(0);
+      });
+      then('pages are empty', async () => {
+        expect(await registry.getAssignedPairs(0, 10)).to.be.empty;
+        expect(await registry.getAssignedPairsForBase(LINK)).to.be.empty;
+      });
+    });
+    when('feeds are assigned', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: LINK, quote: ETH, feed: nonProxyFeed.address },
+          { base: ETH, quote: USD, feed: feed.address },
+        ]);
+      });
+      then('count is returned correctly', async () => {
+        expect(await registry.assignedPairsCount()).to.equal(3);
+      });
+      then('all pairs can be listed', async () => {
+        const pairs = await registry.getAssignedPairs(0, 10);
+        expectPairs(pairs, [
+          { base: LINK, quote: USD, feed: feed.address, isProxy: true },
+          { base: LINK, quote: ETH, feed: nonProxyFeed.address, isProxy: false },
+          { base: ETH, quote: USD, feed: feed.address, isProxy: true },
+        ]);
+      });
+      then('pages are returned correctly', async () => {
+        expectPairs(await registry.getAssignedPairs(1, 1), [{ base: LINK, quote: ETH, feed: nonProxyFeed.address, isProxy: false }]);
+        expectPairs(await registry.getAssignedPairs(2, 5), [{ base: ETH, quote: USD, feed: feed.address, isProxy: true }]);
+        expect(await registry.getAssignedPairs(3, 5)).to.be.empty;
+      });
+      then('pairs for a base can be listed', async () => {
+        expectPairs(await registry.getAssignedPairsForBase(LINK), [
+          { base: LINK, quote: USD, feed: feed.address, isProxy: true },
+          { base: LINK, quote: ETH, feed: nonProxyFeed.address, isProxy: false },
+        ]);
+      });
+    });
+    when('a feed is removed', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: LINK, quote: ETH, feed: nonProxyFeed.address },
+        ]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: constants.ZERO_ADDRESS }]);
+      });
+      then('it is no longer listed', async () => {
+        expect(await registry.assignedPairsCount()).to.equal(1);
+        expectPairs(await registry.getAssignedPairs(0, 10), [{ base: LINK, quote: ETH, feed: nonProxyFeed.address, isProxy: false }]);
+        expectPairs(await registry.getAssignedPairsForBase(LINK), [{ base: LINK, quote: ETH, feed: nonProxyFeed.address, isProxy: false }]);
+      });
+    });
+    function expectPairs(
+      actual: { base: string; quote: string; feed: string; isProxy: boolean }[],
+      expected: { base: string; quote: string; feed: string; isProxy: boolean }[]
+    ) {
+      expect(actual).to.have.lengthOf(expected.length);
+      for (let i = 0; i < expected.length; i++) {
+        expect(actual[i].base).to.equal(expected[i].base);
+        expect(actual[i].quote).to.equal(expected[i].quote);
+        expect(actual[i].feed).to.equal(expected[i].feed);
+        expect(actual[i].isProxy).to.equal(expected[i].isProxy);
+      }
+    }
+  });
+
+  describe('isFeedEnabled', () => {
+    when('feed was never assigned', () => {
+      then('it is not enabled', async () => {
+        expect(await registry.isFeedEnabled(feed.address)).to.be.false;
+        expect(await registry.getPairsServedByFeed(feed.address)).to.be.empty;
+      });
+    });
+    when('a proxy is assigned', () => {
+      given(async () => {
+        feed.aggregator.returns(anotherFeed.address);
+        await registry.connect(admin).assignFeeds([
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: LINK, quote: ETH, feed: feed.address },
+        ]);
+      });
+      then('proxy is enabled', async () => {
+        expect(await registry.isFeedEnabled(feed.address)).to.be.true;
+      });
+      then('underlying aggregator is enabled', async () => {
+        expect(await registry.isFeedEnabled(anotherFeed.address)).to.be.true;
+      });
+      then('served pairs are reported correctly', async () => {
+        const pairs = await registry.getPairsServedByFeed(anotherFeed.address);
+        expect(pairs).to.have.lengthOf(2);
+        expect(pairs[0].base).to.equal(LINK);
+        expect(pairs[0].quote).to.equal(USD);
+        expect(pairs[1].base).to.equal(LINK);
+        expect(pairs[1].quote).to.equal(ETH);
+      });
+    });
+    when('a feed is removed from one of the pairs it serves', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: LINK, quote: ETH, feed: feed.address },
+        ]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: constants.ZERO_ADDRESS }]);
+      });
+      then('it is still enabled', async () => {
+        expect(await registry.isFeedEnabled(feed.address)).to.be.true;
+        expect(await registry.getPairsServedByFeed(feed.address)).to.have.lengthOf(1);
+      });
+    });
+    when('a proxy is replaced in all the pairs it serves', () => {
+      given(async () => {
+        feed.aggregator.returns(anotherFeed.address);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: nonProxyFeed.address }]);
+      });
+      then('neither the proxy nor the aggregator are enabled', async () => {
+        expect(await registry.isFeedEnabled(feed.address)).to.be.false;
+        expect(await registry.isFeedEnabled(anotherFeed.address)).to.be.false;
+      });
+      then('the new feed is enabled', async () => {
+        expect(await registry.isFeedEnabled(nonProxyFeed.address)).to.be.true;
+      });
+    });
+  });
+
+  describe('setHeartbeats', () => {
+    when('setting a heartbeat', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(admin).setHeartbeats([{ base: LINK, quote: USD, heartbeat: 3600 }]);
+      });
+      then('it is set correctly', async () => {
+        expect(await registry.getHeartbeat(LINK, USD)).to.equal(3600);
+      });
+      then('event is emitted', async () => {
+        const heartbeats: { base: string; quote: string; heartbeat: number }[] = await readArgFromEventOrFail(
+          tx,
+          'HeartbeatsModified',
+          'heartbeats'
+        );
+        expect(heartbeats.length).to.equal(1);
+        expect(heartbeats[0].base).to.equal(LINK);
+        expect(heartbeats[0].quote).to.equal(USD);
+        expect(heartbeats[0].heartbeat).to.equal(3600);
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'setHeartbeats',
+      params: () => [[{ base: LINK, quote: USD, heartbeat: 3600 }]],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('setFallbackFeeds', () => {
+    when('setting fallback feeds', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(admin).setFallbackFeeds([{ base: LINK, quote: USD, feeds: [feed.address, anotherFeed.address] }]);
+      });
+      then('they are set correctly', async () => {
+        expect(await registry.getFallbackFeeds(LINK, USD)).to.eql([feed.address, anotherFeed.address]);
+      });
+      then('event is emitted', async () => {
+        const fallbackFeeds: { base: string; quote: string; feeds: string[] }[] = await readArgFromEventOrFail(
+          tx,
+          'FallbackFeedsModified',
+          'fallbackFeeds'
+        );
+        expect(fallbackFeeds.length).to.equal(1);
+        expect(fallbackFeeds[0].base).to.equal(LINK);
+        expect(fallbackFeeds[0].quote).to.equal(USD);
+        expect(fallbackFeeds[0].feeds).to.eql([feed.address, anotherFeed.address]);
+      });
+    });
+    when('deleting fallback feeds', () => {
+      given(async () => {
+        await registry.connect(admin).setFallbackFeeds([{ base: LINK, quote: USD, feeds: [feed.address] }]);
+        await registry.connect(admin).setFallbackFeeds([{ base: LINK, quote: USD, feeds: [] }]);
+      });
+      then('they are deleted', async () => {
+        expect(await registry.getFallbackFeeds(LINK, USD)).to.be.empty;
+      });
+    });
+    when(`the pair's feed is deleted`, () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        await registry.connect(admin).setFallbackFeeds([{ base: LINK, quote: USD, feeds: [anotherFeed.address] }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: constants.ZERO_ADDRESS }]);
+      });
+      then('fallback feeds are deleted too', async () => {
+        expect(await registry.getFallbackFeeds(LINK, USD)).to.be.empty;
+      });
+    });
+    when('assignment delay is enabled', () => {
+      given(async () => {
+        await registry.connect(superAdmin).setAssignmentDelay(DELAY);
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'setFallbackFeeds',
+          args: [FALLBACK_FEEDS_TO_QUEUE()],
+          message: 'AssignmentDelayEnabled',
+        });
+      });
+    });
+    when('setting a fallback feed that is not valid', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'setFallbackFeeds',
+          args: [[{ base: LINK, quote: USD, feeds: [feed.address, constants.NOT_ZERO_ADDRESS] }]],
+          message: `InvalidFeed(["${LINK}", "${USD}", "${constants.NOT_ZERO_ADDRESS}"])`,
+        });
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'setFallbackFeeds',
+      params: () => [[{ base: LINK, quote: USD, feeds: [feed.address] }]],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('queueFallbackFeeds', () => {
+    when('fallback feeds are queued', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(superAdmin).setAssignmentDelay(DELAY);
+        tx = await registry.connect(admin).queueFallbackFeeds(FALLBACK_FEEDS_TO_QUEUE());
+      });
+      then('they can be executed after the delay', async () => {
+        const { timestamp } = await ethers.provider.getBlock(tx.blockNumber!);
+        expect(await registry.getQueuedFeedsExecutableAt(queuedFallbackId())).to.equal(timestamp + DELAY);
+      });
+      then('fallback feeds are not set yet', async () => {
+        expect(await registry.getFallbackFeeds(LINK, USD)).to.be.empty;
+      });
+      then('event is emitted', async () => {
+        expect(await readArgFromEventOrFail(tx, 'FallbackFeedsQueued', 'id')).to.equal(queuedFallbackId());
+      });
+      then('they cannot be queued again', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'queueFallbackFeeds',
+          args: [FALLBACK_FEEDS_TO_QUEUE()],
+          message: 'FeedsAlreadyQueued',
+        });
+      });
+      then('they can be cancelled', async () => {
+        await registry.connect(superAdmin).cancelQueuedFeeds(queuedFallbackId());
+        expect(await registry.getQueuedFeedsExecutableAt(queuedFallbackId())).to.equal(0);
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'queueFallbackFeeds',
+      params: () => [FALLBACK_FEEDS_TO_QUEUE()],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('executeQueuedFallbackFeeds', () => {
+    given(async () => {
+      await registry.connect(superAdmin).setAssignmentDelay(DELAY);
+    });
+    when('fallback feeds were not queued', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'executeQueuedFallbackFeeds',
+          args: [FALLBACK_FEEDS_TO_QUEUE()],
+          message: 'FeedsNotQueued',
+        });
+      });
+    });
+    when('delay has not passed yet', () => {
+      given(async () => {
+        await registry.connect(admin).queueFallbackFeeds(FALLBACK_FEEDS_TO_QUEUE());
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'executeQueuedFallbackFeeds',
+          args: [FALLBACK_FEEDS_TO_QUEUE()],
+          message: 'AssignmentDelayNotOver',
+        });
+      });
+    });
+    when('delay has passed', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        await registry.connect(admin).queueFallbackFeeds(FALLBACK_FEEDS_TO_QUEUE());
+        await evm.advanceTimeAndBlock(DELAY);
+        tx = await registry.connect(admin).executeQueuedFallbackFeeds(FALLBACK_FEEDS_TO_QUEUE());
+      });
+      then('fallback feeds are set', async () => {
+        expect(await registry.getFallbackFeeds(LINK, USD)).to.eql([anotherFeed.address]);
+      });
+      then('queued fallback feeds are removed', async () => {
+        expect(await registry.getQueuedFeedsExecutableAt(queuedFallbackId())).to.equal(0);
+      });
+      then('events are emitted', async () => {
+        await expect(tx).to.emit(registry, 'QueuedFeedsExecuted').withArgs(queuedFallbackId());
+        await expect(tx).to.emit(registry, 'FallbackFeedsModified');
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'executeQueuedFallbackFeeds',
+      params: () => [FALLBACK_FEEDS_TO_QUEUE()],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('setMedianAggregations', () => {
+    when('setting a median aggregation', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(admin).setMedianAggregations([{ base: LINK, quote: USD, minSources: 2 }]);
+      });
+      then('it is set correctly', async () => {
+        expect(await registry.getMedianMinSources(LINK, USD)).to.equal(2);
+      });
+      then('event is emitted', async () => {
+        const medianAggregations: { base: string; quote: string; minSources: number }[] = await readArgFromEventOrFail(
+          tx,
+          'MedianAggregationsModified',
+          'medianAggregations'
+        );
+        expect(medianAggregations.length).to.equal(1);
+        expect(medianAggregations[0].base).to.equal(LINK);
+        expect(medianAggregations[0].quote).to.equal(USD);
+        expect(medianAggregations[0].minSources).to.equal(2);
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'setMedianAggregations',
+      params: () => [[{ base: LINK, quote: USD, minSources: 2 }]],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('setDeviationThresholds', () => {
+    when('setting a deviation threshold', () => {
+      let tx: TransactionResponse;
+      given(async () => {
+        tx = await registry.connect(admin).setDeviationThresholds([{ base: LINK, quote: USD, deviationThreshold: 5000 }]);
+      });
+      then('it is set correctly', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.deviationThreshold).to.equal(5000);
+      });
+      then('event is emitted', async () => {
+        const deviationThresholds: { base: string; quote: string; deviationThreshold: number }[] = await readArgFromEventOrFail(
+          tx,
+          'DeviationThresholdsModified',
+          'deviationThresholds'
+        );
+        expect(deviationThresholds.length).to.equal(1);
+        expect(deviationThresholds[0].base).to.equal(LINK);
+        expect(deviationThresholds[0].quote).to.equal(USD);
+        expect(deviationThresholds[0].deviationThreshold).to.equal(5000);
+      });
+    });
+    when("the pair's feed is replaced", () => {
+      given(async () => {
+        await registry.connect(admin).setDeviationThresholds([{ base: LINK, quote: USD, deviationThreshold: 5000 }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: anotherFeed.address }]);
+      });
+      then('the threshold is kept', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
+        expect(assignedFeed.deviationThreshold).to.equal(5000);
+      });
+    });
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'setDeviationThresholds',
+      params: () => [[{ base: LINK, quote: USD, deviationThreshold: 5000 }]],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
   });
 
-  describe('constructor', () => {
-    when('super admin is zero address', () => {
-      then('tx is reverted with reason error', async () => {
-        await behaviours.deployShouldRevertWithMessage({
-          contract: factory,
-          args: [constants.ZERO_ADDRESS, []],
-          message: 'ZeroAddress',
+  describe('latestRoundDataChecked', () => {
+    const HEARTBEAT = 3600;
+    let now: number;
+    given(async () => {
+      now = (await ethers.provider.getBlock('latest')).timestamp;
+      await registry.connect(admin).setHeartbeats([{ base: LINK, quote: USD, heartbeat: HEARTBEAT }]);
+    });
+    when('feed is not set', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry,
+          func: 'latestRoundDataChecked',
+          args: [LINK, USD],
+          message: 'FeedNotFound',
         });
       });
     });
-    when('all arguments are valid', () => {
-      then('super admin is set correctly', async () => {
-        const hasRole = await registry.hasRole(superAdminRole, superAdmin.address);
-        expect(hasRole).to.be.true;
+    checkedTest({
+      title: 'answer is zero',
+      roundData: () => [10, 0, now, now, 10],
+      message: 'InvalidAnswer',
+    });
+    checkedTest({
+      title: 'answer is negative',
+      roundData: () => [10, -1, now, now, 10],
+      message: 'InvalidAnswer',
+    });
+    checkedTest({
+      title: 'round was never updated',
+      roundData: () => [10, 100, 0, 0, 10],
+      message: 'IncompleteRound',
+    });
+    checkedTest({
+      title: 'answer was computed in a previous round',
+      roundData: () => [10, 100, now, now, 9],
+      message: 'IncompleteRound',
+    });
+    checkedTest({
+      title: 'answer is older than the heartbeat',
+      roundData: () => [10, 100, now, now - HEARTBEAT - 10, 10],
+      message: 'StalePrice',
+    });
+    when('answer is older than the heartbeat, but no heartbeat is set', () => {
+      given(async () => {
+        await registry.connect(admin).setHeartbeats([{ base: LINK, quote: USD, heartbeat: 0 }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        feed.latestRoundData.returns([10, 100, now, now - HEARTBEAT - 10, 10]);
       });
-      then('initial admins are set correctly', async () => {
-        const hasRole = await registry.hasRole(adminRole, admin.address);
-        expect(hasRole).to.be.true;
+      then('data is returned', async () => {
+        const [, answer] = await registry.latestRoundDataChecked(LINK, USD);
+        expect(answer).to.equal(100);
       });
-      then('super admin role is set as super admin role', async () => {
-        const admin = await registry.getRoleAdmin(superAdminRole);
-        expect(admin).to.equal(superAdminRole);
+    });
+    when('data is healthy', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        feed.latestRoundData.returns([10, 100, now - 20, now - 10, 10]);
       });
-      then('super admin role is set as admin role', async () => {
-        const admin = await registry.getRoleAdmin(adminRole);
-        expect(admin).to.equal(superAdminRole);
+      then('data is returned', async () => {
+        const [roundId, answer, startedAt, updatedAt, answeredInRound] = await registry.latestRoundDataChecked(LINK, USD);
+        expect(roundId).to.equal(10);
+        expect(answer).to.equal(100);
+        expect(startedAt).to.equal(now - 20);
+        expect(updatedAt).to.equal(now - 10);
+        expect(answeredInRound).to.equal(10);
+      });
+    });
+    describe('with sequencer uptime feed', () => {
+      const GRACE_PERIOD = 3600;
+      let sequencerUptimeFeed: FakeContract<AggregatorV2V3Interface>;
+      let registryWithSequencer: ChainlinkRegistry;
+      given(async () => {
+        sequencerUptimeFeed = await smock.fake('AggregatorV2V3Interface');
+        registryWithSequencer = await factory.deploy(superAdmin.address, [admin.address], sequencerUptimeFeed.address, GRACE_PERIOD);
+        await registryWithSequencer.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        feed.latestRoundData.returns([10, 100, now, now, 10]);
+      });
+      then('sequencer uptime feed is set correctly', async () => {
+        expect(await registryWithSequencer.sequencerUptimeFeed()).to.equal(sequencerUptimeFeed.address);
+        expect(await registryWithSequencer.gracePeriod()).to.equal(GRACE_PERIOD);
+      });
+      when('sequencer is down', () => {
+        given(() => sequencerUptimeFeed.latestRoundData.returns([1, 1, now - GRACE_PERIOD * 2, now, 1]));
+        then('reverts with message', async () => {
+          await behaviours.txShouldRevertWithMessage({
+            contract: registryWithSequencer,
+            func: 'latestRoundDataChecked',
+            args: [LINK, USD],
+            message: 'SequencerDown',
+          });
+        });
+      });
+      when('sequencer round is invalid', () => {
+        given(() => sequencerUptimeFeed.latestRoundData.returns([1, 0, 0, now, 1]));
+        then('reverts with message', async () => {
+          await behaviours.txShouldRevertWithMessage({
+            contract: registryWithSequencer,
+            func: 'latestRoundDataChecked',
+            args: [LINK, USD],
+            message: 'SequencerDown',
+          });
+        });
+      });
+      when('sequencer is up, but grace period is not over', () => {
+        given(() => sequencerUptimeFeed.latestRoundData.returns([1, 0, now - GRACE_PERIOD / 2, now, 1]));
+        then('reverts with message', async () => {
+          await behaviours.txShouldRevertWithMessage({
+            contract: registryWithSequencer,
+            func: 'latestRoundDataChecked',
+            args: [LINK, USD],
+            message: 'GracePeriodNotOver',
+          });
+        });
+      });
+      when('sequencer is up and grace period is over', () => {
+        given(() => sequencerUptimeFeed.latestRoundData.returns([1, 0, now - GRACE_PERIOD * 2, now, 1]));
+        then('data is returned', async () => {
+          const [, answer] = await registryWithSequencer.latestRoundDataChecked(LINK, USD);
+          expect(answer).to.equal(100);
+        });
       });
     });
+    function checkedTest({ title, roundData, message }: { title: string; roundData: () => BigNumberish[]; message: string }) {
+      when(title, () => {
+        given(async () => {
+          await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+          feed.latestRoundData.returns(roundData());
+        });
+        then('reverts with message', async () => {
+          await behaviours.txShouldRevertWithMessage({
+            contract: registry,
+            func: 'latestRoundDataChecked',
+            args: [LINK, USD],
+            message,
+          });
+        });
+      });
+    }
   });
 
-  describe('assignFeeds', () => {
-    when('setting a feed', () => {
-      let tx: TransactionResponse;
+  describe('checkSequencer', () => {
+    let now: number;
+    given(async () => {
+      now = (await ethers.provider.getBlock('latest')).timestamp;
+    });
+    when('there is no sequencer uptime feed', () => {
+      then('it does not revert', async () => {
+        await registry.checkSequencer();
+      });
+    });
+    describe('with sequencer uptime feed', () => {
+      const GRACE_PERIOD = 3600;
+      let sequencerUptimeFeed: FakeContract<AggregatorV2V3Interface>;
+      let registryWithSequencer: ChainlinkRegistry;
       given(async () => {
-        tx = await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        sequencerUptimeFeed = await smock.fake('AggregatorV2V3Interface');
+        registryWithSequencer = await factory.deploy(superAdmin.address, [admin.address], sequencerUptimeFeed.address, GRACE_PERIOD);
       });
-      then('it is set correctly', async () => {
-        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
-        expect(assignedFeed.feed).to.equal(feed.address);
-        expect(assignedFeed.isProxy).to.equal(true);
+      when('sequencer is down', () => {
+        given(() => sequencerUptimeFeed.latestRoundData.returns([1, 1, now - GRACE_PERIOD * 2, now, 1]));
+        then('reverts with message', async () => {
+          await behaviours.txShouldRevertWithMessage({
+            contract: registryWithSequencer,
+            func: 'checkSequencer',
+            args: [],
+            message: 'SequencerDown',
+          });
+        });
       });
-      then('event is emitted', async () => {
-        await expectEventToHaveBeenEmitted(tx, feed.address);
+      when('sequencer is up, but grace period is not over', () => {
+        given(() => sequencerUptimeFeed.latestRoundData.returns([1, 0, now - GRACE_PERIOD / 2, now, 1]));
+        then('reverts with message', async () => {
+          await behaviours.txShouldRevertWithMessage({
+            contract: registryWithSequencer,
+            func: 'checkSequencer',
+            args: [],
+            message: 'GracePeriodNotOver',
+          });
+        });
+      });
+      when('sequencer is up and grace period is over', () => {
+        given(() => sequencerUptimeFeed.latestRoundData.returns([1, 0, now - GRACE_PERIOD * 2, now, 1]));
+        then('it does not revert', async () => {
+          await registryWithSequencer.checkSequencer();
+        });
       });
     });
-    when('setting a feed that is not a proxy', () => {
+  });
+
+  describe('setIntermediates', () => {
+    when('setting intermediates', () => {
       let tx: TransactionResponse;
       given(async () => {
-        tx = await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: registry.address }]);
+        tx = await registry.connect(admin).setIntermediates([ETH, USD]);
       });
-      then('it is set correctly', async () => {
-        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
-        expect(assignedFeed.feed).to.equal(registry.address);
-        expect(assignedFeed.isProxy).to.equal(false);
+      then('they are set correctly', async () => {
+        expect(await registry.getIntermediates()).to.eql([ETH, USD]);
       });
       then('event is emitted', async () => {
-        await expectEventToHaveBeenEmitted(tx, registry.address);
+        await expect(tx).to.emit(registry, 'IntermediatesModified').withArgs([ETH, USD]);
       });
     });
-    when('removing a feed', () => {
+    behaviours.shouldBeExecutableOnlyByRole({
+      contract: () => registry,
+      funcAndSignature: 'setIntermediates',
+      params: () => [[ETH]],
+      role: () => adminRole,
+      addressWithRole: () => admin,
+    });
+  });
+
+  describe('setInverseSupport', () => {
+    when('pair has no feed assigned', () => {
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'setInverseSupport',
+          args: [[{ base: LINK, quote: ETH, enabled: true }]],
+          message: 'FeedNotFound',
+        });
+      });
+    });
+    when('inverse pair already has a feed assigned', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([
+          { base: LINK, quote: ETH, feed: feed.address },
+          { base: ETH, quote: LINK, feed: anotherFeed.address },
+        ]);
+      });
+      then('reverts with message', async () => {
+        await behaviours.txShouldRevertWithMessage({
+          contract: registry.connect(admin),
+          func: 'setInverseSupport',
+          args: [[{ base: LINK, quote: ETH, enabled: true }]],
+          message: 'FeedAlreadyAssigned',
+        });
+      });
+    });
+    when('support is enabled', () => {
       let tx: TransactionResponse;
       given(async () => {
-        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
-        tx = await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: constants.ZERO_ADDRESS }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: ETH, feed: feed.address }]);
+        tx = await registry.connect(admin).setInverseSupport([{ base: LINK, quote: ETH, enabled: true }]);
       });
-      then('feed is removed correctly', async () => {
-        const assignedFeed = await registry.getAssignedFeed(LINK, USD);
-        expect(assignedFeed.feed).to.equal(constants.ZERO_ADDRESS);
-        expect(assignedFeed.isProxy).to.equal(false);
+      then('inverse pair is reported as inverted', async () => {
+        const assignedFeed = await registry.getAssignedFeed(ETH, LINK);
+        expect(assignedFeed.feed).to.equal(feed.address);
+        expect(assignedFeed.isProxy).to.be.true;
+        expect(assignedFeed.isInverted).to.be.true;
+      });
+      then('pair is still reported as direct', async () => {
+        const assignedFeed = await registry.getAssignedFeed(LINK, ETH);
+        expect(assignedFeed.isInverted).to.be.false;
+      });
+      then('inverse pair is enumerated', async () => {
+        const pairs = await registry.getAssignedPairsForBase(ETH);
+        expect(pairs).to.have.lengthOf(1);
+        expect(pairs[0].quote).to.equal(LINK);
+        expect(pairs[0].feed).to.equal(feed.address);
+        expect(pairs[0].isInverted).to.be.true;
       });
       then('event is emitted', async () => {
-        await expectEventToHaveBeenEmitted(tx, constants.ZERO_ADDRESS);
+        const inverseSupport: { base: string; quote: string; enabled: boolean }[] = await readArgFromEventOrFail(
+          tx,
+          'InverseSupportModified',
+          'inverseSupport'
+        );
+        expect(inverseSupport).to.have.lengthOf(1);
+        expect(inverseSupport[0].base).to.equal(LINK);
+        expect(inverseSupport[0].quote).to.equal(ETH);
+        expect(inverseSupport[0].enabled).to.be.true;
+      });
+    });
+    when('support is disabled', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: ETH, feed: feed.address }]);
+        await registry.connect(admin).setInverseSupport([{ base: LINK, quote: ETH, enabled: true }]);
+        await registry.connect(admin).setInverseSupport([{ base: LINK, quote: ETH, enabled: false }]);
+      });
+      then('inverse pair is no longer served', async () => {
+        expect((await registry.getAssignedFeed(ETH, LINK)).feed).to.equal(constants.ZERO_ADDRESS);
+        expect(await registry.assignedPairsCount()).to.equal(1);
+      });
+    });
+    when('the pair is removed', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: ETH, feed: feed.address }]);
+        await registry.connect(admin).setInverseSupport([{ base: LINK, quote: ETH, enabled: true }]);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: ETH, feed: constants.ZERO_ADDRESS }]);
+      });
+      then('inverse pair is no longer served', async () => {
+        expect((await registry.getAssignedFeed(ETH, LINK)).feed).to.equal(constants.ZERO_ADDRESS);
+        expect(await registry.assignedPairsCount()).to.equal(0);
+      });
+    });
+    when('a feed is assigned to the inverse pair', () => {
+      given(async () => {
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: ETH, feed: feed.address }]);
+        await registry.connect(admin).setInverseSupport([{ base: LINK, quote: ETH, enabled: true }]);
+        await registry.connect(admin).assignFeeds([{ base: ETH, quote: LINK, feed: anotherFeed.address }]);
+      });
+      then('the assigned feed takes precedence', async () => {
+        const assignedFeed = await registry.getAssignedFeed(ETH, LINK);
+        expect(assignedFeed.feed).to.equal(anotherFeed.address);
+        expect(assignedFeed.isInverted).to.be.false;
+        expect(await registry.assignedPairsCount()).to.equal(2);
       });
     });
     behaviours.shouldBeExecutableOnlyByRole({
       contract: () => registry,
-      funcAndSignature: 'assignFeeds',
-      params: () => [[{ base: constants.NOT_ZERO_ADDRESS, quote: constants.NOT_ZERO_ADDRESS, feed: constants.NOT_ZERO_ADDRESS }]],
+      funcAndSignature: 'setInverseSupport',
+      params: () => [[{ base: LINK, quote: ETH, enabled: false }]],
       role: () => adminRole,
       addressWithRole: () => admin,
     });
-    async function expectEventToHaveBeenEmitted(tx: TransactionResponse, feed: string) {
-      const feeds: { base: string; quote: string; feed: string }[] = await readArgFromEventOrFail(tx, 'FeedsModified', 'feeds');
-      expect(feeds.length).to.equal(1);
-      expect(feeds[0].base).to.equal(LINK);
-      expect(feeds[0].quote).to.equal(USD);
-      expect(feeds[0].feed).to.equal(feed);
-    }
+  });
+
+  describe('latestRoundDataBatch', () => {
+    given(async () => {
+      await registry.connect(admin).assignFeeds([
+        { base: LINK, quote: USD, feed: feed.address },
+        { base: LINK, quote: ETH, feed: anotherFeed.address },
+      ]);
+      feed.latestRoundData.returns([1, 2, 3, 4, 5]);
+      anotherFeed.latestRoundData.reverts();
+    });
+    when('reading many pairs', () => {
+      let results: Awaited<ReturnType<ChainlinkRegistry['latestRoundDataBatch']>>;
+      given(async () => {
+        results = await registry.latestRoundDataBatch([
+          { base: LINK, quote: USD },
+          { base: LINK, quote: ETH },
+          { base: ETH, quote: USD },
+        ]);
+      });
+      then('data is returned for pairs that could be read', () => {
+        expect(results[0].success).to.be.true;
+        expect(results[0].roundId).to.equal(1);
+        expect(results[0].answer).to.equal(2);
+        expect(results[0].startedAt).to.equal(3);
+        expect(results[0].updatedAt).to.equal(4);
+        expect(results[0].answeredInRound).to.equal(5);
+      });
+      then('reverting feeds are marked as unsuccessful', () => {
+        expect(results[1].success).to.be.false;
+        expect(results[1].answer).to.equal(0);
+      });
+      then('pairs without feed are marked as unsuccessful', () => {
+        expect(results[2].success).to.be.false;
+        expect(results[2].answer).to.equal(0);
+      });
+    });
+  });
+
+  describe('decimalsBatch', () => {
+    given(async () => {
+      await registry.connect(admin).assignFeeds([
+        { base: LINK, quote: USD, feed: feed.address },
+        { base: LINK, quote: ETH, feed: anotherFeed.address },
+      ]);
+      feed.decimals.returns(8);
+      anotherFeed.decimals.reverts();
+    });
+    when('reading many pairs', () => {
+      let results: Awaited<ReturnType<ChainlinkRegistry['decimalsBatch']>>;
+      given(async () => {
+        results = await registry.decimalsBatch([
+          { base: LINK, quote: USD },
+          { base: LINK, quote: ETH },
+          { base: ETH, quote: USD },
+        ]);
+      });
+      then('decimals are returned for pairs that could be read', () => {
+        expect(results[0].success).to.be.true;
+        expect(results[0].decimals).to.equal(8);
+      });
+      then('reverting feeds are marked as unsuccessful', () => {
+        expect(results[1].success).to.be.false;
+      });
+      then('pairs without feed are marked as unsuccessful', () => {
+        expect(results[2].success).to.be.false;
+      });
+    });
   });
 
   describe('sendDust', () => {
@@ -179,6 +1659,24 @@ contract('ChainlinkRegistry', () => {
     returnsWhenMocked: 18,
   });
 
+  describe('decimals', () => {
+    when('decimals were cached when the feed was assigned', () => {
+      let result: number;
+      given(async () => {
+        feed.decimals.returns(8);
+        await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+        feed.decimals.reset();
+        result = await registry.decimals(LINK, USD);
+      });
+      then('feed is not called', () => {
+        expect(feed.decimals).to.not.have.been.called;
+      });
+      then('cached decimals are returned', () => {
+        expect(result).to.equal(8);
+      });
+    });
+  });
+
   redirectTest({
     method: 'description',
     args: () => [LINK, USD],
@@ -233,69 +1731,18 @@ contract('ChainlinkRegistry', () => {
     returnsWhenMocked: BigNumber.from(50),
   });
 
-  notSupportedTest({
-    method: 'getPhaseFeed',
-    args: () => [LINK, USD, 1234],
-  });
-
-  notSupportedTest({
-    method: 'isFeedEnabled',
-    args: () => [constants.NOT_ZERO_ADDRESS],
-  });
-
-  notSupportedTest({
-    method: 'getPhase',
-    args: () => [LINK, USD, 1234],
-  });
-
-  notSupportedTest({
-    method: 'getRoundFeed',
-    args: () => [LINK, USD, 1234],
-  });
-
-  notSupportedTest({
-    method: 'getPhaseRange',
-    args: () => [LINK, USD, 1234],
-  });
-
-  notSupportedTest({
-    method: 'getPreviousRoundId',
-    args: () => [LINK, USD, 1234],
-  });
-
-  notSupportedTest({
-    method: 'getNextRoundId',
-    args: () => [LINK, USD, 1234],
-  });
-
-  notSupportedTest({
-    method: 'proposeFeed',
-    args: () => [LINK, USD, constants.NOT_ZERO_ADDRESS],
-  });
-
-  notSupportedTest({
-    method: 'confirmFeed',
-    args: () => [LINK, USD, constants.NOT_ZERO_ADDRESS],
-  });
-
-  notSupportedTest({
-    method: 'getProposedFeed',
-    args: () => [LINK, USD],
-  });
-
-  notSupportedTest({
-    method: 'proposedGetRoundData',
-    args: () => [LINK, USD, 1234],
-  });
-
-  notSupportedTest({
-    method: 'proposedLatestRoundData',
+  proposedRedirectTest({
+    method: 'latestRoundData',
+    proxyMethod: 'proposedLatestRoundData',
     args: () => [LINK, USD],
+    returnsWhenMocked: [BigNumber.from(1), BigNumber.from(2), BigNumber.from(3), BigNumber.from(4), BigNumber.from(5)],
   });
 
-  notSupportedTest({
-    method: 'getCurrentPhaseId',
-    args: () => [LINK, USD],
+  proposedRedirectTest({
+    method: 'getRoundData',
+    proxyMethod: 'proposedGetRoundData',
+    args: () => [LINK, USD, 1000],
+    returnsWhenMocked: [BigNumber.from(1), BigNumber.from(2), BigNumber.from(3), BigNumber.from(4), BigNumber.from(5)],
   });
 
   /**
@@ -328,6 +1775,8 @@ contract('ChainlinkRegistry', () => {
         let result: any;
         given(async () => {
           await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+          // Assigning a feed will read its latest round, so we need to reset the call count
+          feed[method].reset();
           feed[method].returns(returnValue);
           result = await (registry[method] as any)(...args());
         });
@@ -352,24 +1801,58 @@ contract('ChainlinkRegistry', () => {
       });
     });
   }
-  function notSupportedTest<Key extends keyof ChainlinkRegistry['functions'] & string>({
+  /**
+   * Same as `redirectTest`, but for the functions that read from the proposed feed instead of the assigned one
+   */
+  function proposedRedirectTest<
+    Key extends keyof Functions,
+    ProxyKey extends keyof ChainlinkRegistry['functions'] & string,
+    ReturnValue extends Awaited<ReturnType<Functions[Key]>>
+  >({
     method,
+    proxyMethod,
     args,
+    returnsWhenMocked: returnValue,
   }: {
     method: Key;
-    args: () => Parameters<ChainlinkRegistry['functions'][Key]>;
+    proxyMethod: ProxyKey;
+    args: () => Parameters<ChainlinkRegistry['functions'][ProxyKey]>;
+    returnsWhenMocked: Arrayed<ReturnValue> | ReturnValue;
   }) {
-    describe(method, () => {
-      when(`calling ${method} is called`, () => {
-        then('reverts with message', async () => {
+    describe(proxyMethod, () => {
+      when('feed is not proposed', () => {
+        then(`calling ${proxyMethod} will revert with message`, async () => {
           await behaviours.txShouldRevertWithMessage({
             contract: registry,
-            func: method,
+            func: proxyMethod,
             args: args(),
-            message: 'FunctionNotSupported',
+            message: 'FeedNotProposed',
           });
         });
       });
+      when('feed is proposed', () => {
+        let result: any;
+        given(async () => {
+          await registry.connect(admin).proposeFeed(LINK, USD, feed.address);
+          feed[method].reset();
+          feed[method].returns(returnValue);
+          result = await (registry[proxyMethod] as any)(...args());
+        });
+        then('feed is called correctly', () => {
+          const redirectedArgs = args().splice(2);
+          if (redirectedArgs.length > 0) {
+            expect(feed[method]).to.have.been.calledOnceWith(...redirectedArgs);
+          } else {
+            expect(feed[method]).to.have.been.calledOnce;
+          }
+        });
+        then('return value from feed is returned through registry', async () => {
+          expect(result).to.have.lengthOf((returnValue as any[]).length);
+          for (let i = 0; i < (returnValue as any[]).length; i++) {
+            expect(result[i]).to.equal((returnValue as any[])[i]);
+          }
+        });
+      });
     });
   }
   type Keys = keyof AggregatorV2V3Interface['functions'] & keyof ChainlinkRegistry['functions'];
@@ -0,0 +1,20 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { contract, then } from '@test-utils/bdd';
+import { Contract } from 'ethers';
+import { Denomination, Denominations } from '@sdk/denominations';
+
+contract('Denominations', () => {
+  let denominations: Contract;
+
+  before('Setup accounts and contracts', async () => {
+    const factory = await ethers.getContractFactory('contracts/libraries/Denominations.sol:Denominations');
+    denominations = await factory.deploy();
+  });
+
+  then('the TypeScript module matches the library', async () => {
+    for (const denomination of Object.keys(Denominations) as Denomination[]) {
+      expect(await denominations[denomination]()).to.equal(Denominations[denomination]);
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { constants } from '@test-utils';
+import { contract, given, then, when } from '@test-utils/bdd';
+import { deployRegistry, ETH, LINK, USD } from '@test-utils/fixtures';
+import { ChainlinkRegistry, ChainlinkRegistry__factory, IAggregatorProxy } from '@typechained';
+import { FakeContract, smock } from '@defi-wonderland/smock';
+import { utils } from 'ethers';
+import { FeedNotFoundError, FunctionNotSupportedError, RegistryNotDeployedError, toRegistryError } from '@sdk/errors';
+import { REGISTRY_ADDRESSES } from '@sdk/address-book';
+import { Price, RegistryClient } from '@sdk/registry-client';
+import { getDeterministicAddress, REGISTRY_SALT } from '@utils/deployment';
+
+contract('RegistryClient', () => {
+  const REGISTRY_INTERFACE = ChainlinkRegistry__factory.createInterface();
+
+  let feed: FakeContract<IAggregatorProxy>;
+  let registry: ChainlinkRegistry;
+  let client: RegistryClient;
+
+  before('Setup accounts and contracts', async () => {
+    const [, superAdmin, admin] = await ethers.getSigners();
+    registry = await deployRegistry({ superAdmin: superAdmin.address, admins: [admin.address] });
+    feed = await smock.fake('IAggregatorProxy');
+    feed.latestRoundData.returns([5, 123456789, 1000, 2000, 5]);
+    feed.decimals.returns(8);
+    feed.description.returns('LINK / USD');
+    feed.aggregator.returns(constants.NOT_ZERO_ADDRESS);
+    await registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+    client = new RegistryClient(ethers.provider, 'hardhat', { address: registry.address });
+  });
+
+  describe('constructor', () => {
+    when('no address is given for a known network', () => {
+      then('the known address is used', () => {
+        const ethereumClient = new RegistryClient(ethers.provider, 'ethereum');
+        expect(ethereumClient.registry.address).to.equal(REGISTRY_ADDRESSES.ethereum);
+      });
+    });
+    when('no address is given for a network with our own registry', () => {
+      then('the deterministic address is used', () => {
+        const polygonClient = new RegistryClient(ethers.provider, 'polygon');
+        expect(polygonClient.registry.address).to.equal(getDeterministicAddress(REGISTRY_SALT));
+      });
+    });
+    when('no address is given for an unknown network', () => {
+      then('a typed error is thrown', () => {
+        expect(() => new RegistryClient(ethers.provider, 'unknown')).to.throw(RegistryNotDeployedError);
+      });
+    });
+  });
+
+  describe('getPrice', () => {
+    when('the pair has a feed', () => {
+      let price: Price;
+      given(async () => {
+        price = await client.getPrice(LINK, USD);
+      });
+      then('the scaled price is returned', () => {
+        expect(price.answer).to.equal(123456789);
+        expect(price.decimals).to.equal(8);
+        expect(price.value).to.equal('1.23456789');
+      });
+      then('round data is returned', () => {
+        expect(price.roundId.gt(0)).to.be.true;
+        expect(price.startedAt).to.equal(1000);
+        expect(price.updatedAt).to.equal(2000);
+      });
+    });
+    when('the pair has no feed', () => {
+      then('a typed error is thrown', async () => {
+        const error = await client.getPrice(ETH, USD).catch((error) => error);
+        expect(error).to.be.instanceOf(FeedNotFoundError);
+        expect(error.base).to.equal(ETH);
+        expect(error.quote).to.equal(USD);
+      });
+    });
+  });
+
+  describe('getDescription', () => {
+    when('the pair has a feed', () => {
+      then("the feed's description is returned", async () => {
+        expect(await client.getDescription(LINK, USD)).to.equal('LINK / USD');
+      });
+    });
+  });
+
+  describe('getFeed', () => {
+    when('the feed is a proxy', () => {
+      then('the underlying aggregator is returned', async () => {
+        expect(await client.getFeed(LINK, USD)).to.equal(constants.NOT_ZERO_ADDRESS);
+      });
+    });
+  });
+
+  describe('toRegistryError', () => {
+    const CONTEXT = { method: 'latestRoundData', base: LINK, quote: USD };
+    when('the revert is nested in the error', () => {
+      then('it is mapped', () => {
+        const error = { error: { error: { data: REGISTRY_INTERFACE.encodeErrorResult('FunctionNotSupported') } } };
+        const mapped = toRegistryError(error, CONTEXT);
+        expect(mapped).to.be.instanceOf(FunctionNotSupportedError);
+        expect((mapped as FunctionNotSupportedError).method).to.equal('latestRoundData');
+      });
+    });
+    when("the revert comes from chainlink's registry", () => {
+      then('it is mapped', () => {
+        expect(toRegistryError({ reason: 'Feed not found' }, CONTEXT)).to.be.instanceOf(FeedNotFoundError);
+      });
+    });
+    when('the revert is not known', () => {
+      then('the original error is returned', () => {
+        const error = { data: REGISTRY_INTERFACE.encodeErrorResult('StalePrice') };
+        expect(toRegistryError(error, CONTEXT)).to.equal(error);
+        const other = { data: utils.id('Unknown()').slice(0, 10) };
+        expect(toRegistryError(other, CONTEXT)).to.equal(other);
+      });
+    });
+  });
+});
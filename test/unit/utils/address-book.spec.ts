@@ -0,0 +1,94 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { contract, given, then, when } from '@test-utils/bdd';
+import { ETH, LINK, USD } from '@test-utils/fixtures';
+import { AddressBook, buildAddressBook, CHAINLINK_REGISTRY_ADDRESSES, renderAddressBook } from '@utils/address-book';
+import { getDeterministicAddress, REGISTRY_SALT } from '@utils/deployment';
+
+contract('address-book', () => {
+  const FEED = '0xd9FFdb71EbE7496cC440152d43986Aae0AB76665';
+  const REGISTRY = '0x47Fb2585D2C56Fe188D0E6ec628a38b74fCeeeDf';
+  const ANOTHER_REGISTRY = '0x0000000000000000000000000000000000000001';
+  const DETERMINISTIC_REGISTRY = getDeterministicAddress(REGISTRY_SALT);
+
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'address-book-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('buildAddressBook', () => {
+    when('there are deployments and feeds configs', () => {
+      let book: AddressBook;
+      given(() => {
+        writeDeployment('polygon', REGISTRY);
+        writeDeployment('optimism', ANOTHER_REGISTRY);
+        writeDeployment('hardhat', REGISTRY);
+        fs.mkdirSync(path.join(dir, 'deployments', 'arbitrum'), { recursive: true });
+        fs.mkdirSync(path.join(dir, 'feeds'));
+        fs.writeFileSync(
+          path.join(dir, 'feeds', 'polygon.yaml'),
+          `feeds:\n  - base: '${LINK}'\n    quote: '${USD}'\n    feed: '${FEED}'\n  - base: '${ETH}'\n    quote: '${USD}'\n`
+        );
+        book = buildAddressBook({ deploymentsDir: path.join(dir, 'deployments'), feedsConfigDir: path.join(dir, 'feeds') });
+      });
+      then('addresses are read from deployments', () => {
+        expect(book.addresses.optimism).to.equal(ANOTHER_REGISTRY);
+        expect(book.addresses.polygon).to.equal(REGISTRY);
+      });
+      then('deterministic address is used for networks without deployment', () => {
+        expect(book.addresses.arbitrum).to.equal(DETERMINISTIC_REGISTRY);
+      });
+      then('local networks are not included', () => {
+        expect(book.addresses).to.have.keys('arbitrum', 'ethereum', 'optimism', 'polygon');
+      });
+      then('catalog is read from feeds configs, without pairs that are removed', () => {
+        expect(book.catalog.polygon).to.eql([{ base: LINK, quote: USD, feed: FEED }]);
+      });
+      then('networks without feeds config have an empty catalog', () => {
+        expect(book.catalog.optimism).to.eql([]);
+      });
+    });
+    when('there are no deployments', () => {
+      then('the registries operated by chainlink and the deterministic addresses are included', () => {
+        expect(buildAddressBook({ deploymentsDir: path.join(dir, 'deployments'), feedsConfigDir: path.join(dir, 'feeds') })).to.eql({
+          addresses: {
+            ...CHAINLINK_REGISTRY_ADDRESSES,
+            arbitrum: DETERMINISTIC_REGISTRY,
+            optimism: DETERMINISTIC_REGISTRY,
+            polygon: DETERMINISTIC_REGISTRY,
+          },
+          catalog: { arbitrum: [], ethereum: [], optimism: [], polygon: [] },
+        });
+      });
+    });
+  });
+
+  describe('renderAddressBook', () => {
+    when('rendering an address book', () => {
+      let rendered: string;
+      given(() => {
+        rendered = renderAddressBook({ addresses: { polygon: REGISTRY }, catalog: { polygon: [{ base: LINK, quote: USD, feed: FEED }] } });
+      });
+      then('addresses are exported as a typed map', () => {
+        expect(rendered).to.include(`export const REGISTRY_ADDRESSES = { polygon: '${REGISTRY}' } as const;`);
+        expect(rendered).to.include('export type RegistryNetwork = keyof typeof REGISTRY_ADDRESSES;');
+      });
+      then('catalog is exported', () => {
+        expect(rendered).to.include('export const FEED_CATALOG: Record<RegistryNetwork, readonly CatalogEntry[]> = {');
+        expect(rendered).to.include(`base: '${LINK}',\n      quote: '${USD}',\n      feed: '${FEED}',`);
+      });
+    });
+  });
+
+  function writeDeployment(network: string, address: string) {
+    fs.mkdirSync(path.join(dir, 'deployments', network), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'deployments', network, 'ChainlinkFeedRegistry.json'), JSON.stringify({ address }));
+  }
+});
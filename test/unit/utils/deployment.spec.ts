@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { constants } from '@test-utils';
+import { contract, given, then, when } from '@test-utils/bdd';
+import { BigNumber, utils } from 'ethers';
+import {
+  abi as DETERMINISTIC_FACTORY_ABI,
+  bytecode as DETERMINISTIC_FACTORY_BYTECODE,
+} from '@mean-finance/deterministic-factory/artifacts/solidity/contracts/DeterministicFactory.sol/DeterministicFactory.json';
+import { DEPLOYMENT_GAS_MARGIN_PERCENT, estimateDeploymentGas, getDeterministicAddress, REGISTRY_SALT } from '@utils/deployment';
+
+contract('deployment', () => {
+  describe('estimateDeploymentGas', () => {
+    when('estimating the deployment of the registry', () => {
+      let deployer: string, estimation: BigNumber, used: BigNumber;
+      given(async () => {
+        [{ address: deployer }] = await ethers.getSigners();
+        const factory = await ethers.getContractFactory('contracts/ChainlinkRegistry/ChainlinkRegistry.sol:ChainlinkRegistry');
+        const values = [deployer, [deployer], constants.ZERO_ADDRESS, 0];
+        estimation = await estimateDeploymentGas(ethers.provider, {
+          from: deployer,
+          bytecode: factory.bytecode,
+          constructorArgs: { types: ['address', 'address[]', 'address', 'uint32'], values },
+        });
+        const registry = await factory.deploy(...values);
+        ({ gasUsed: used } = await registry.deployTransaction.wait());
+      });
+      then('it covers the gas used by a plain deployment', () => {
+        expect(estimation).to.be.gt(used);
+      });
+      then('margin is added on top of the plain deployment', () => {
+        expect(estimation).to.be.gte(used.mul(100 + DEPLOYMENT_GAS_MARGIN_PERCENT).div(100));
+      });
+    });
+  });
+
+  describe('getDeterministicAddress', () => {
+    when('computing the address for a salt', () => {
+      let expected: string, address: string;
+      given(async () => {
+        const [deployer] = await ethers.getSigners();
+        const factory = await new ethers.ContractFactory(DETERMINISTIC_FACTORY_ABI, DETERMINISTIC_FACTORY_BYTECODE, deployer).deploy(
+          deployer.address,
+          deployer.address
+        );
+        expected = await factory.getDeployed(utils.formatBytes32String(REGISTRY_SALT));
+        address = getDeterministicAddress(REGISTRY_SALT, factory.address);
+      });
+      then('it matches the address reported by the factory', () => {
+        expect(address).to.equal(expected);
+      });
+    });
+  });
+});
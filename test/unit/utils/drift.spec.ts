@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { contract, given, then, when } from '@test-utils/bdd';
+import { deployRegistry, ETH, fakeLiveFeed, LINK, USD } from '@test-utils/fixtures';
+import { snapshot } from '@test-utils/evm';
+import { ChainlinkRegistry, IAggregatorProxy } from '@typechained';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { FakeContract } from '@defi-wonderland/smock';
+import { checkDrift, DriftReport } from '@utils/drift';
+
+contract('drift', () => {
+  const AAVE = '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9';
+
+  let admin: SignerWithAddress;
+  let feed: FakeContract<IAggregatorProxy>, anotherFeed: FakeContract<IAggregatorProxy>;
+  let registry: ChainlinkRegistry;
+  let snapshotId: string;
+
+  before('Setup accounts and contracts', async () => {
+    let superAdmin: SignerWithAddress;
+    [, superAdmin, admin] = await ethers.getSigners();
+    registry = await deployRegistry({ superAdmin: superAdmin.address, admins: [admin.address] });
+    feed = await fakeLiveFeed();
+    anotherFeed = await fakeLiveFeed();
+    await registry.connect(admin).assignFeeds([
+      { base: LINK, quote: USD, feed: feed.address },
+      { base: ETH, quote: USD, feed: feed.address },
+    ]);
+    await registry.connect(admin).setInverseSupport([{ base: LINK, quote: USD, enabled: true }]);
+    snapshotId = await snapshot.take();
+  });
+
+  beforeEach(async () => {
+    await snapshot.revert(snapshotId);
+  });
+
+  when('the registry matches the config', () => {
+    let report: DriftReport;
+    given(async () => {
+      report = await checkDrift(
+        registry,
+        [
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: ETH, quote: USD, feed: feed.address },
+          { base: USD, quote: LINK, feed: null },
+        ],
+        async () => true
+      );
+    });
+    then('no issues are reported', () => {
+      expect(report.ok).to.be.true;
+      expect(report.issues).to.be.empty;
+      expect(report.checkedPairs).to.equal(3);
+      expect(report.registry).to.equal(registry.address);
+    });
+  });
+
+  when('the registry drifted from the config', () => {
+    let report: DriftReport;
+    given(async () => {
+      report = await checkDrift(
+        registry,
+        [
+          { base: LINK, quote: USD, feed: anotherFeed.address },
+          { base: AAVE, quote: USD, feed: feed.address },
+          { base: USD, quote: LINK, feed: feed.address },
+        ],
+        async () => true
+      );
+    });
+    then('report is not ok', () => {
+      expect(report.ok).to.be.false;
+    });
+    then('mismatched feeds are reported', () => {
+      expect(report.issues).to.deep.include({
+        type: 'mismatched',
+        base: LINK,
+        quote: USD,
+        expectedFeed: anotherFeed.address,
+        actualFeed: feed.address,
+      });
+    });
+    then('missing feeds are reported', () => {
+      expect(report.issues).to.deep.include({ type: 'missing', base: AAVE, quote: USD, expectedFeed: feed.address });
+    });
+    then('pairs served by inversion are considered as missing', () => {
+      expect(report.issues).to.deep.include({ type: 'missing', base: USD, quote: LINK, expectedFeed: feed.address });
+    });
+    then('assigned pairs that are not in the config are reported as extra', () => {
+      expect(report.issues).to.deep.include({ type: 'extra', base: ETH, quote: USD, actualFeed: feed.address });
+      expect(report.issues.length).to.equal(4);
+    });
+  });
+
+  when('the config says that a pair should not have a feed', () => {
+    let report: DriftReport;
+    given(async () => {
+      report = await checkDrift(
+        registry,
+        [
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: ETH, quote: USD, feed: null },
+        ],
+        async () => true
+      );
+    });
+    then('the assigned feed is reported as extra', () => {
+      expect(report.issues).to.eql([{ type: 'extra', base: ETH, quote: USD, actualFeed: feed.address }]);
+    });
+  });
+
+  when('the registry detected the feed as a proxy, but it is not', () => {
+    let report: DriftReport;
+    given(async () => {
+      report = await checkDrift(
+        registry,
+        [
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: ETH, quote: USD, feed: feed.address },
+        ],
+        async () => false
+      );
+    });
+    then('wrong detection is reported', () => {
+      expect(report.issues).to.deep.include({
+        type: 'wrong-proxy-detection',
+        base: LINK,
+        quote: USD,
+        feed: feed.address,
+        expectedIsProxy: false,
+        actualIsProxy: true,
+      });
+      expect(report.issues.length).to.equal(2);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { constants } from '@test-utils';
+import { contract, given, then, when } from '@test-utils/bdd';
+import { deployRegistry, ETH, fakeLiveFeed, LINK, USD } from '@test-utils/fixtures';
+import evm, { snapshot } from '@test-utils/evm';
+import { ChainlinkRegistry, IAggregatorProxy } from '@typechained';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { FakeContract } from '@defi-wonderland/smock';
+import { buildPlanTransactions, FeedConfig, FeedsPlan, parseFeedsConfig, planFeedChanges, PlannedTransaction } from '@utils/feeds-config';
+
+contract('feeds-config', () => {
+  let superAdmin: SignerWithAddress, admin: SignerWithAddress;
+  let feed: FakeContract<IAggregatorProxy>, anotherFeed: FakeContract<IAggregatorProxy>;
+  let registry: ChainlinkRegistry;
+  let snapshotId: string;
+
+  before('Setup accounts and contracts', async () => {
+    [, superAdmin, admin] = await ethers.getSigners();
+    registry = await deployRegistry({ superAdmin: superAdmin.address, admins: [admin.address] });
+    feed = await fakeLiveFeed();
+    anotherFeed = await fakeLiveFeed();
+    snapshotId = await snapshot.take();
+  });
+
+  beforeEach(async () => {
+    await snapshot.revert(snapshotId);
+  });
+
+  describe('parseFeedsConfig', () => {
+    when('parsing a json config', () => {
+      let feeds: FeedConfig[];
+      given(() => {
+        feeds = parseFeedsConfig(JSON.stringify({ feeds: [{ base: LINK.toLowerCase(), quote: USD, feed: ETH }] }), 'json');
+      });
+      then('addresses are checksummed', () => {
+        expect(feeds).to.eql([{ base: LINK, quote: USD, feed: ETH }]);
+      });
+    });
+    when('parsing a yaml config', () => {
+      let feeds: FeedConfig[];
+      given(() => {
+        feeds = parseFeedsConfig(
+          `feeds:\n  - base: '${LINK}'\n    quote: '${USD}'\n    feed: '${ETH}'\n  - base: '${ETH}'\n    quote: '${USD}'\n`,
+          'yaml'
+        );
+      });
+      then('entries are parsed', () => {
+        expect(feeds[0]).to.eql({ base: LINK, quote: USD, feed: ETH });
+      });
+      then('entries without feed are marked for removal', () => {
+        expect(feeds[1]).to.eql({ base: ETH, quote: USD, feed: null });
+      });
+    });
+    when('a pair is configured more than once', () => {
+      then('parsing fails', () => {
+        const config = {
+          feeds: [
+            { base: LINK, quote: USD },
+            { base: LINK.toLowerCase(), quote: USD },
+          ],
+        };
+        expect(() => parseFeedsConfig(JSON.stringify(config), 'json')).to.throw(`Pair ${LINK}/${USD} is configured more than once`);
+      });
+    });
+    when('an entry has an invalid address', () => {
+      then('parsing fails', () => {
+        const config = { feeds: [{ base: LINK, quote: USD, feed: '0x1234' }] };
+        expect(() => parseFeedsConfig(JSON.stringify(config), 'json')).to.throw('Entry #0 has an invalid feed');
+      });
+    });
+  });
+
+  describe('planFeedChanges', () => {
+    when('comparing a config against the registry', () => {
+      let plan: FeedsPlan;
+      given(async () => {
+        await registry.connect(admin).assignFeeds([
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: ETH, quote: USD, feed: feed.address },
+          { base: LINK, quote: ETH, feed: feed.address },
+        ]);
+        await registry.connect(admin).setInverseSupport([{ base: ETH, quote: USD, enabled: true }]);
+        plan = await planFeedChanges(registry, [
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: ETH, quote: USD, feed: anotherFeed.address },
+          { base: LINK, quote: ETH, feed: null },
+          { base: USD, quote: ETH, feed: anotherFeed.address },
+          { base: USD, quote: LINK, feed: null },
+        ]);
+      });
+      then('pairs that are up to date are ignored', () => {
+        const planned = [...plan.toAssign, ...plan.toRemove].map(({ base, quote }) => `${base}/${quote}`);
+        expect(planned).to.not.include(`${LINK}/${USD}`);
+        expect(planned).to.not.include(`${USD}/${LINK}`);
+      });
+      then('pairs with a different feed are assigned', () => {
+        expect(plan.toAssign).to.deep.include({ base: ETH, quote: USD, currentFeed: feed.address, desiredFeed: anotherFeed.address });
+      });
+      then('pairs served by inversion are considered as not assigned', () => {
+        expect(plan.toAssign).to.deep.include({
+          base: USD,
+          quote: ETH,
+          currentFeed: constants.ZERO_ADDRESS,
+          desiredFeed: anotherFeed.address,
+        });
+      });
+      then('pairs without feed in the config are removed', () => {
+        expect(plan.toRemove).to.eql([{ base: LINK, quote: ETH, currentFeed: feed.address, desiredFeed: constants.ZERO_ADDRESS }]);
+      });
+    });
+  });
+
+  describe('buildPlanTransactions', () => {
+    const PLAN = (): FeedsPlan => ({
+      toAssign: [{ base: LINK, quote: USD, currentFeed: constants.ZERO_ADDRESS, desiredFeed: feed.address }],
+      toRemove: [{ base: ETH, quote: USD, currentFeed: anotherFeed.address, desiredFeed: constants.ZERO_ADDRESS }],
+    });
+    given(async () => {
+      await registry.connect(admin).assignFeeds([{ base: ETH, quote: USD, feed: anotherFeed.address }]);
+    });
+    when('there is no assignment delay', () => {
+      let transactions: PlannedTransaction[];
+      given(async () => {
+        transactions = await buildPlanTransactions(registry, PLAN());
+      });
+      then('feeds are assigned and removed in the same call', () => {
+        expect(transactions.length).to.equal(1);
+        expect(transactions[0].to).to.equal(registry.address);
+        const assign = registry.interface.decodeFunctionData('assignFeeds', transactions[0].data);
+        expect(assign[0].map(({ base, quote, feed }: FeedConfig) => ({ base, quote, feed }))).to.eql([
+          { base: LINK, quote: USD, feed: feed.address },
+          { base: ETH, quote: USD, feed: constants.ZERO_ADDRESS },
+        ]);
+      });
+      then('an admin can execute them', async () => {
+        await admin.sendTransaction({ to: transactions[0].to, data: transactions[0].data });
+        expect((await registry.getAssignedFeed(LINK, USD)).feed).to.equal(feed.address);
+        expect((await registry.getAssignedFeed(ETH, USD)).feed).to.equal(constants.ZERO_ADDRESS);
+      });
+    });
+    when('there is an assignment delay', () => {
+      let transactions: PlannedTransaction[];
+      given(async () => {
+        await registry.connect(superAdmin).setAssignmentDelay(60);
+        transactions = await buildPlanTransactions(registry, PLAN());
+      });
+      then('feeds are queued', () => {
+        expect(transactions.length).to.equal(1);
+        const queue = registry.interface.decodeFunctionData('queueFeeds', transactions[0].data);
+        expect(queue[0].length).to.equal(2);
+        expect(transactions[0].description).to.include('executeQueuedFeeds');
+      });
+      then('an admin can queue them, and execute them once the delay passes', async () => {
+        await admin.sendTransaction({ to: transactions[0].to, data: transactions[0].data });
+        const [queued] = registry.interface.decodeFunctionData('queueFeeds', transactions[0].data);
+        await evm.advanceTimeAndBlock(60);
+        await registry.connect(admin).executeQueuedFeeds(queued);
+        expect((await registry.getAssignedFeed(LINK, USD)).feed).to.equal(feed.address);
+        expect((await registry.getAssignedFeed(ETH, USD)).feed).to.equal(constants.ZERO_ADDRESS);
+      });
+    });
+    when('the plan is empty', () => {
+      then('there are no transactions', async () => {
+        expect(await buildPlanTransactions(registry, { toAssign: [], toRemove: [] })).to.be.empty;
+      });
+    });
+  });
+});
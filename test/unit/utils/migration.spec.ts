@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { constants } from '@test-utils';
+import { contract, given, then, when } from '@test-utils/bdd';
+import { deployRegistry, ETH, fakeLiveFeed, LINK, USD } from '@test-utils/fixtures';
+import { ChainlinkRegistry, ChainlinkRegistryReader, IAggregatorProxy } from '@typechained';
+import { FakeContract } from '@defi-wonderland/smock';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { compareRegistries, diffConfig, diffPairs, exportAll, PairState, RegistryConfig, RegistryDeployment } from '@utils/migration';
+
+contract('migration', () => {
+  const PAIR_KEY = `${LINK}/${USD}`.toLowerCase();
+  const CONFIG: RegistryConfig = { intermediates: [ETH], validationOverrides: [], assignmentDelay: 0 };
+  const PAIR: PairState = {
+    base: LINK,
+    quote: USD,
+    feed: constants.NOT_ZERO_ADDRESS,
+    heartbeat: 3600,
+    deviationThreshold: 0,
+    medianMinSources: 0,
+    servesInverse: false,
+    fallbackFeeds: [],
+  };
+
+  describe('diffConfig', () => {
+    when('both configs are the same', () => {
+      then('there are no differences', () => {
+        expect(diffConfig(CONFIG, { ...CONFIG })).to.be.empty;
+      });
+    });
+    when('a value differs', () => {
+      then('the difference is described', () => {
+        expect(diffConfig(CONFIG, { ...CONFIG, assignmentDelay: 10 })).to.eql(['assignmentDelay was expected to be 0, but it is 10']);
+      });
+    });
+  });
+
+  describe('diffPairs', () => {
+    when('a pair is missing', () => {
+      then('the difference is described', () => {
+        expect(diffPairs([PAIR], [])).to.eql([`${PAIR_KEY} is missing`]);
+      });
+    });
+    when('a pair has a different configuration', () => {
+      then('the difference is described', () => {
+        const [difference] = diffPairs([PAIR], [{ ...PAIR, heartbeat: 1 }]);
+        expect(difference).to.include('was expected to be').and.to.include('"heartbeat":1');
+      });
+    });
+    when('there is an extra pair', () => {
+      then('the difference is described', () => {
+        expect(diffPairs([], [PAIR])).to.eql([`${PAIR_KEY} is not present in the source registry`]);
+      });
+    });
+  });
+
+  describe('compareRegistries', () => {
+    let superAdmin: SignerWithAddress, admin: SignerWithAddress;
+    let feed: FakeContract<IAggregatorProxy>;
+    let source: RegistryDeployment, target: RegistryDeployment;
+    given(async () => {
+      [, superAdmin, admin] = await ethers.getSigners();
+      feed = await fakeLiveFeed();
+      feed.aggregator.returns(constants.NOT_ZERO_ADDRESS);
+      const readerFactory = await ethers.getContractFactory('contracts/ChainlinkRegistry/ChainlinkRegistryReader.sol:ChainlinkRegistryReader');
+      const deploy = async (): Promise<RegistryDeployment> => {
+        const registry = await deployRegistry({ superAdmin: superAdmin.address, admins: [admin.address] });
+        const reader = (await readerFactory.deploy(registry.address)) as ChainlinkRegistryReader;
+        return { registry, reader };
+      };
+      source = await deploy();
+      target = await deploy();
+      await source.registry.connect(admin).assignFeeds([{ base: LINK, quote: USD, feed: feed.address }]);
+    });
+    when('the registries differ', () => {
+      let differences: string[];
+      given(async () => {
+        await target.registry.connect(admin).setIntermediates([ETH]);
+        differences = await compareRegistries(source, target, 10);
+      });
+      then('every difference is reported', () => {
+        expect(differences).to.have.lengthOf(2);
+        expect(differences[0]).to.include('intermediates was expected to be []');
+        expect(differences[1]).to.equal(`${PAIR_KEY} is missing`);
+      });
+    });
+    when('the pairs were imported into the target registry', () => {
+      given(async () => {
+        await target.registry.connect(superAdmin).importPairs(await exportAll(source, 10));
+      });
+      then('there are no differences', async () => {
+        expect(await compareRegistries(source, target, 10)).to.be.empty;
+      });
+    });
+  });
+});
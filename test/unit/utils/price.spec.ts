@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { constants } from '@test-utils';
+import { contract, given, then, when } from '@test-utils/bdd';
+import { deployRegistry, ETH, LINK, USD } from '@test-utils/fixtures';
+import { IAggregatorProxy } from '@typechained';
+import { FakeContract, smock } from '@defi-wonderland/smock';
+import { FeedNotFoundError } from '@sdk/errors';
+import { RegistryClient } from '@sdk/registry-client';
+import { formatAge, PriceReport, readPrice, resolveAsset } from '@utils/price';
+
+contract('price', () => {
+  const UPDATED_AT = 2000;
+
+  let proxy: FakeContract<IAggregatorProxy>, aggregator: FakeContract<IAggregatorProxy>;
+  let client: RegistryClient;
+
+  before('Setup accounts and contracts', async () => {
+    const [, superAdmin, admin] = await ethers.getSigners();
+    const registry = await deployRegistry({ superAdmin: superAdmin.address, admins: [admin.address] });
+    proxy = await smock.fake('IAggregatorProxy');
+    proxy.aggregator.returns(constants.NOT_ZERO_ADDRESS);
+    aggregator = await smock.fake('IAggregatorProxy');
+    aggregator.aggregator.reverts();
+    for (const [feed, description] of [
+      [proxy, 'LINK / USD'],
+      [aggregator, 'ETH / USD'],
+    ] as const) {
+      feed.latestRoundData.returns([5, 123456789, 1000, UPDATED_AT, 5]);
+      feed.decimals.returns(8);
+      feed.description.returns(description);
+    }
+    await registry.connect(admin).assignFeeds([
+      { base: LINK, quote: USD, feed: proxy.address },
+      { base: ETH, quote: USD, feed: aggregator.address },
+    ]);
+    client = new RegistryClient(ethers.provider, 'hardhat', { address: registry.address });
+  });
+
+  describe('resolveAsset', () => {
+    when('a symbol is given', () => {
+      then('the denomination is returned, regardless of the case', () => {
+        expect(resolveAsset('usd')).to.equal(USD);
+        expect(resolveAsset('ETH')).to.equal(ETH);
+      });
+    });
+    when('an address is given', () => {
+      then('it is returned checksummed', () => {
+        expect(resolveAsset(LINK.toLowerCase())).to.equal(LINK);
+      });
+    });
+    when('an unknown symbol is given', () => {
+      then('resolution fails', () => {
+        expect(() => resolveAsset('LINK')).to.throw('Unknown asset LINK, please use its address');
+      });
+    });
+  });
+
+  describe('readPrice', () => {
+    when('the feed is a proxy', () => {
+      let report: PriceReport;
+      given(async () => {
+        report = await readPrice(client, LINK, USD, UPDATED_AT + 90);
+      });
+      then('the price is reported', () => {
+        expect(report.value).to.equal('1.23456789');
+        expect(report.answer).to.equal('123456789');
+        expect(report.decimals).to.equal(8);
+        expect(report.description).to.equal('LINK / USD');
+      });
+      then('the age of the answer is reported', () => {
+        expect(report.updatedAt).to.equal(UPDATED_AT);
+        expect(report.age).to.equal(90);
+      });
+      then('both the proxy and its aggregator are reported', () => {
+        expect(report.feed).to.equal(proxy.address);
+        expect(report.aggregator).to.equal(constants.NOT_ZERO_ADDRESS);
+        expect(report.isProxy).to.be.true;
+      });
+    });
+    when('the feed is an aggregator', () => {
+      let report: PriceReport;
+      given(async () => {
+        report = await readPrice(client, ETH, USD, UPDATED_AT);
+      });
+      then('the feed is reported as the aggregator', () => {
+        expect(report.feed).to.equal(aggregator.address);
+        expect(report.aggregator).to.equal(aggregator.address);
+        expect(report.isProxy).to.be.false;
+        expect(report.age).to.equal(0);
+      });
+    });
+    when('the pair has no feed', () => {
+      then('a typed error is thrown', async () => {
+        await expect(readPrice(client, LINK, ETH, UPDATED_AT)).to.be.rejectedWith(FeedNotFoundError);
+      });
+    });
+  });
+
+  describe('formatAge', () => {
+    when('formatting an age', () => {
+      then('only the relevant units are shown', () => {
+        expect(formatAge(0)).to.equal('0s');
+        expect(formatAge(59)).to.equal('59s');
+        expect(formatAge(3600)).to.equal('1h');
+        expect(formatAge(90061)).to.equal('1d 1h 1m 1s');
+      });
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { constants } from '@test-utils';
+import { contract, given, then, when } from '@test-utils/bdd';
+import { deployRegistry, ETH, fakeLiveFeed, LINK, USD } from '@test-utils/fixtures';
+import { snapshot } from '@test-utils/evm';
+import { ChainlinkRegistry, IAggregatorProxy } from '@typechained';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { FakeContract } from '@defi-wonderland/smock';
+import { FeedConfig } from '@utils/feeds-config';
+import { handOverRoles, RegistryRole, seedFeeds } from '@utils/registry';
+
+contract('registry', () => {
+  let deployer: SignerWithAddress, msig: SignerWithAddress;
+  let feed: FakeContract<IAggregatorProxy>;
+  let registry: ChainlinkRegistry;
+  let snapshotId: string;
+
+  before('Setup accounts and contracts', async () => {
+    [deployer, msig] = await ethers.getSigners();
+    registry = await deployRegistry({ superAdmin: deployer.address, admins: [deployer.address] });
+    feed = await fakeLiveFeed();
+    snapshotId = await snapshot.take();
+  });
+
+  beforeEach(async () => {
+    await snapshot.revert(snapshotId);
+  });
+
+  describe('seedFeeds', () => {
+    let config: FeedConfig[];
+    given(() => {
+      config = [
+        { base: LINK, quote: USD, feed: feed.address },
+        { base: ETH, quote: USD, feed: null },
+      ];
+    });
+    when('the registry has no feeds', () => {
+      let sent: string[];
+      given(async () => {
+        sent = await seedFeeds(registry, config);
+      });
+      then('a single transaction is sent', () => {
+        expect(sent).to.have.lengthOf(1);
+      });
+      then('the configured feeds are assigned', async () => {
+        expect((await registry.getAssignedFeed(LINK, USD)).feed).to.equal(feed.address);
+        expect((await registry.getAssignedFeed(ETH, USD)).feed).to.equal(constants.ZERO_ADDRESS);
+      });
+    });
+    when('the same config is seeded again', () => {
+      let sent: string[];
+      let blockNumber: number;
+      given(async () => {
+        await seedFeeds(registry, config);
+        blockNumber = await ethers.provider.getBlockNumber();
+        sent = await seedFeeds(registry, config);
+      });
+      then('nothing is sent', async () => {
+        expect(sent).to.be.empty;
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+      });
+      then('the assigned feeds stay the same', async () => {
+        expect((await registry.getAssignedFeed(LINK, USD)).feed).to.equal(feed.address);
+      });
+    });
+  });
+
+  describe('handOverRoles', () => {
+    when('the signer holds roles', () => {
+      let renounced: RegistryRole[];
+      given(async () => {
+        renounced = await handOverRoles(registry, msig.address);
+      });
+      then('the held roles are reported', () => {
+        expect(renounced).to.eql(['SUPER_ADMIN_ROLE', 'ADMIN_ROLE']);
+      });
+      then('roles are granted to the new holder', async () => {
+        expect(await registry.hasRole(await registry.SUPER_ADMIN_ROLE(), msig.address)).to.be.true;
+        expect(await registry.hasRole(await registry.ADMIN_ROLE(), msig.address)).to.be.true;
+      });
+      then('roles that were not held are not granted', async () => {
+        expect(await registry.hasRole(await registry.EMERGENCY_ROLE(), msig.address)).to.be.false;
+      });
+      then('the signer renounces its roles', async () => {
+        expect(await registry.hasRole(await registry.SUPER_ADMIN_ROLE(), deployer.address)).to.be.false;
+        expect(await registry.hasRole(await registry.ADMIN_ROLE(), deployer.address)).to.be.false;
+      });
+    });
+    when('the roles were already handed over', () => {
+      let renounced: RegistryRole[];
+      given(async () => {
+        await handOverRoles(registry, msig.address);
+        renounced = await handOverRoles(registry, msig.address);
+      });
+      then('nothing happens', async () => {
+        expect(renounced).to.be.empty;
+        expect(await registry.hasRole(await registry.SUPER_ADMIN_ROLE(), msig.address)).to.be.true;
+      });
+    });
+    when('a role can not be granted', () => {
+      given(async () => {
+        await registry.renounceRole(await registry.SUPER_ADMIN_ROLE(), deployer.address);
+      });
+      then('handover fails before renouncing any role', async () => {
+        await expect(handOverRoles(registry, msig.address)).to.be.reverted;
+        expect(await registry.hasRole(await registry.ADMIN_ROLE(), deployer.address)).to.be.true;
+      });
+    });
+  });
+});
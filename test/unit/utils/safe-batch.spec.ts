@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { constants } from '@test-utils';
+import { contract, given, then, when } from '@test-utils/bdd';
+import { deployRegistry, ETH, LINK, USD } from '@test-utils/fixtures';
+import { ChainlinkRegistry } from '@typechained';
+import { utils } from 'ethers';
+import { PlannedTransaction } from '@utils/feeds-config';
+import { buildFeedCalls, buildGrantRoleCall, buildSendDustCall, chunkByGas, SafeBatchFile, toSafeBatchFile } from '@utils/safe-batch';
+import { RegistryRole } from '@utils/registry';
+
+contract('safe-batch', () => {
+  const SAFE = '0x308810881807189cAe91950888b2cB73A1CC5920';
+  const FEED = '0x0000000000000000000000000000000000000001';
+  const GAS_PER_CALL = 100_000;
+
+  let registry: ChainlinkRegistry;
+
+  before('Setup accounts and contracts', async () => {
+    const [superAdmin] = await ethers.getSigners();
+    registry = await deployRegistry({ superAdmin: superAdmin.address, admins: [] });
+  });
+
+  describe('chunkByGas', () => {
+    const CALLS = (amount: number) => [...Array(amount).keys()].map((i) => ({ description: `call ${i}`, to: SAFE, data: '0x' }));
+    when('calls fit in many chunks', () => {
+      let chunks: PlannedTransaction[][];
+      given(async () => {
+        chunks = await chunkByGas(CALLS(5), GAS_PER_CALL * 2, async () => GAS_PER_CALL);
+      });
+      then('calls are split without going over the limit', () => {
+        expect(chunks.map((chunk) => chunk.length)).to.eql([2, 2, 1]);
+      });
+      then('order is kept', () => {
+        expect(chunks.flat().map(({ description }) => description)).to.eql(CALLS(5).map(({ description }) => description));
+      });
+    });
+    when('a call is over the limit on its own', () => {
+      then('chunking fails', async () => {
+        await expect(chunkByGas(CALLS(1), GAS_PER_CALL - 1, async () => GAS_PER_CALL)).to.be.rejectedWith(
+          `call 0 needs ${GAS_PER_CALL} gas, which is over the limit of ${GAS_PER_CALL - 1}`
+        );
+      });
+    });
+  });
+
+  describe('buildGrantRoleCall', () => {
+    when('the role is unknown', () => {
+      then('building fails', () => {
+        expect(() => buildGrantRoleCall(registry, { role: 'OWNER_ROLE' as RegistryRole, account: SAFE })).to.throw('Unknown role OWNER_ROLE');
+      });
+    });
+  });
+
+  describe('toSafeBatchFile', () => {
+    when('generating a batch with feed changes, dust and role grants', () => {
+      let file: SafeBatchFile;
+      given(async () => {
+        const feedCalls = await buildFeedCalls(registry, {
+          toAssign: [
+            { base: LINK, quote: USD, currentFeed: constants.ZERO_ADDRESS, desiredFeed: FEED },
+            { base: ETH, quote: USD, currentFeed: constants.ZERO_ADDRESS, desiredFeed: FEED },
+          ],
+          toRemove: [{ base: LINK, quote: ETH, currentFeed: FEED, desiredFeed: constants.ZERO_ADDRESS }],
+        });
+        const calls = [
+          ...feedCalls,
+          buildSendDustCall(registry, { recipient: SAFE, token: ETH, amount: 1000 }),
+          buildGrantRoleCall(registry, { role: 'EMERGENCY_ROLE', account: SAFE }),
+        ];
+        // We go through JSON to make sure that we are testing what would be written to the file
+        file = JSON.parse(JSON.stringify(toSafeBatchFile({ chainId: 10, safe: SAFE, name: 'batch', calls, createdAt: 1 })));
+      });
+      then('metadata is set', () => {
+        expect(file.version).to.equal('1.0');
+        expect(file.chainId).to.equal('10');
+        expect(file.meta.createdFromSafeAddress).to.equal(SAFE);
+      });
+      then('all transactions are sent to the registry without value', () => {
+        expect(file.transactions.length).to.equal(5);
+        for (const transaction of file.transactions) {
+          expect(transaction.to).to.equal(registry.address);
+          expect(transaction.value).to.equal('0');
+        }
+      });
+      then('feed changes are split in one call per pair', () => {
+        const [first, second, third] = file.transactions.map(({ data }) => registry.interface.parseTransaction({ data }));
+        expect(first.name).to.equal('assignFeeds');
+        expect(first.args[0].map(({ base, quote, feed }: any) => [base, quote, feed])).to.eql([[LINK, USD, FEED]]);
+        expect(second.name).to.equal('assignFeeds');
+        expect(second.args[0].map(({ base, quote, feed }: any) => [base, quote, feed])).to.eql([[ETH, USD, FEED]]);
+        expect(third.name).to.equal('assignFeeds');
+        expect(third.args[0].map(({ base, quote, feed }: any) => [base, quote, feed])).to.eql([[LINK, ETH, constants.ZERO_ADDRESS]]);
+      });
+      then('dust is sent', () => {
+        const sendDust = registry.interface.parseTransaction({ data: file.transactions[3].data });
+        expect(sendDust.name).to.equal('sendDust');
+        expect(sendDust.args[0]).to.equal(SAFE);
+        expect(sendDust.args[1]).to.equal(ETH);
+        expect(sendDust.args[2]).to.equal(1000);
+      });
+      then('role is granted', () => {
+        const grantRole = registry.interface.parseTransaction({ data: file.transactions[4].data });
+        expect(grantRole.name).to.equal('grantRole');
+        expect(grantRole.args[0]).to.equal(utils.id('EMERGENCY_ROLE'));
+        expect(grantRole.args[1]).to.equal(SAFE);
+      });
+    });
+  });
+});
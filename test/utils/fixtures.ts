@@ -0,0 +1,25 @@
+import { ethers } from 'hardhat';
+import { FakeContract, smock } from '@defi-wonderland/smock';
+import { ChainlinkRegistry, IAggregatorProxy } from '@typechained';
+import { Denominations } from '@sdk/denominations';
+import constants from './constants';
+
+export const LINK = '0xa36085F69e2889c224210F603D836748e7dC0088';
+export const USD = Denominations.USD;
+export const ETH = Denominations.ETH;
+
+// A round that passes the validation that the registry runs when a feed is assigned
+export const LIVE_ROUND = [0, 1, 0, 0, 0];
+
+// Deploys a registry without sequencer uptime feed
+export const deployRegistry = async ({ superAdmin, admins }: { superAdmin: string; admins: string[] }): Promise<ChainlinkRegistry> => {
+  const factory = await ethers.getContractFactory('contracts/ChainlinkRegistry/ChainlinkRegistry.sol:ChainlinkRegistry');
+  return (await factory.deploy(superAdmin, admins, constants.ZERO_ADDRESS, 0)) as ChainlinkRegistry;
+};
+
+// Fakes a feed that can be assigned to the registry
+export const fakeLiveFeed = async (): Promise<FakeContract<IAggregatorProxy>> => {
+  const feed = await smock.fake<IAggregatorProxy>('IAggregatorProxy');
+  feed.latestRoundData.returns(LIVE_ROUND);
+  return feed;
+};
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import prettier from 'prettier';
+import { getDeterministicAddress, REGISTRY_SALT } from './deployment';
+import { FEEDS_CONFIG_DIR, getFeedsConfigPath, loadFeedsConfig } from './feeds-config';
+
+export const DEPLOYMENTS_DIR = 'deployments';
+export const ADDRESS_BOOK_PATH = 'sdk/address-book.ts';
+// Local networks are not published
+const IGNORED_NETWORKS = ['hardhat', 'localhost'];
+// Networks where we use the registry operated by chainlink. Since it's not deployed by us, it doesn't need a deployment
+export const CHAINLINK_REGISTRY_ADDRESSES: Record<string, string> = {
+  ethereum: '0x47Fb2585D2C56Fe188D0E6ec628a38b74fCeeeDf',
+};
+// Networks where our registry is deployed through the deterministic factory, so its address is known even without a deployment
+export const DETERMINISTIC_REGISTRY_NETWORKS = ['arbitrum', 'optimism', 'polygon'];
+
+export type CatalogEntry = { base: string; quote: string; feed: string };
+
+export type AddressBook = { addresses: Record<string, string>; catalog: Record<string, CatalogEntry[]> };
+
+/**
+ * Reads the registry's address from each network's deployment (or from the registries operated by chainlink, or the deterministic
+ * address), and the known pairs from each network's feeds config. Pairs that are configured to be removed are not part of the catalog
+ */
+export function buildAddressBook({
+  deploymentsDir = DEPLOYMENTS_DIR,
+  feedsConfigDir = FEEDS_CONFIG_DIR,
+}: { deploymentsDir?: string; feedsConfigDir?: string } = {}): AddressBook {
+  const book: AddressBook = { addresses: {}, catalog: {} };
+  const deployed = fs.existsSync(deploymentsDir) ? fs.readdirSync(deploymentsDir) : [];
+  const networks = [...new Set([...deployed, ...Object.keys(CHAINLINK_REGISTRY_ADDRESSES), ...DETERMINISTIC_REGISTRY_NETWORKS])].sort();
+  for (const network of networks) {
+    const deploymentPath = path.join(deploymentsDir, network, 'ChainlinkFeedRegistry.json');
+    if (IGNORED_NETWORKS.includes(network)) continue;
+    if (fs.existsSync(deploymentPath)) {
+      book.addresses[network] = JSON.parse(fs.readFileSync(deploymentPath, 'utf-8')).address;
+    } else if (CHAINLINK_REGISTRY_ADDRESSES[network]) {
+      book.addresses[network] = CHAINLINK_REGISTRY_ADDRESSES[network];
+    } else if (DETERMINISTIC_REGISTRY_NETWORKS.includes(network)) {
+      book.addresses[network] = getDeterministicAddress(REGISTRY_SALT);
+    } else {
+      continue;
+    }
+    let configPath: string | undefined;
+    try {
+      configPath = getFeedsConfigPath(network, feedsConfigDir);
+    } catch {
+      // The network doesn't have a feeds config yet
+    }
+    book.catalog[network] = configPath
+      ? loadFeedsConfig(configPath).flatMap(({ base, quote, feed }) => (feed ? [{ base, quote, feed }] : []))
+      : [];
+  }
+  return book;
+}
+
+export function renderAddressBook({ addresses, catalog }: AddressBook): string {
+  const content = `
+    // This file is generated with \`npx hardhat registry:address-book\`, please don't modify it manually
+    export const REGISTRY_ADDRESSES = ${JSON.stringify(addresses)} as const;
+
+    export type RegistryNetwork = keyof typeof REGISTRY_ADDRESSES;
+
+    export type CatalogEntry = { base: string; quote: string; feed: string };
+
+    // The pairs that are known to be assigned on each network
+    export const FEED_CATALOG: Record<RegistryNetwork, readonly CatalogEntry[]> = ${JSON.stringify(catalog)};
+  `;
+  const options = prettier.resolveConfig.sync(ADDRESS_BOOK_PATH) ?? {};
+  return prettier.format(content, { ...options, parser: 'typescript' });
+}
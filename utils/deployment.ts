@@ -0,0 +1,36 @@
+import { BigNumber, providers, utils } from 'ethers';
+
+export const DETERMINISTIC_FACTORY_ADDRESS = '0xD420ea5a1981dB5f1914954CE6e012A3bB10c015';
+export const REGISTRY_SALT = 'MF-Chainlink-Feed-Registry-V2';
+// The factory uses CREATE3, which first deploys this proxy with CREATE2, and then deploys the contract from the proxy
+const CREATE3_PROXY_BYTECODE = '0x67363d3d37363d34f03d5260086018f3';
+
+// Going through the deterministic factory costs a little more than a plain creation, so we leave some room on top of the estimation
+export const DEPLOYMENT_GAS_MARGIN_PERCENT = 20;
+
+export type ConstructorArgs = {
+  types: string[];
+  values: any[];
+};
+
+/**
+ * Estimates the gas needed to deploy the given bytecode through the deterministic factory. The estimation is based on a plain creation,
+ * so on L2s like arbitrum it already includes the L1 calldata cost
+ */
+export async function estimateDeploymentGas(
+  provider: providers.Provider,
+  { from, bytecode, constructorArgs }: { from: string; bytecode: string; constructorArgs: ConstructorArgs }
+): Promise<BigNumber> {
+  const data = utils.hexConcat([bytecode, utils.defaultAbiCoder.encode(constructorArgs.types, constructorArgs.values)]);
+  const gas = await provider.estimateGas({ from, data });
+  return gas.mul(100 + DEPLOYMENT_GAS_MARGIN_PERCENT).div(100);
+}
+
+/**
+ * Computes the address where the deterministic factory deploys a contract with the given salt, the same way
+ * `DeterministicFactory.getDeployed` does. Since the factory uses CREATE3, the address doesn't depend on the contract's bytecode
+ */
+export function getDeterministicAddress(salt: string, factory: string = DETERMINISTIC_FACTORY_ADDRESS): string {
+  const proxy = utils.getCreate2Address(factory, utils.formatBytes32String(salt), utils.keccak256(CREATE3_PROXY_BYTECODE));
+  return utils.getContractAddress({ from: proxy, nonce: 1 });
+}
@@ -0,0 +1,57 @@
+import { constants } from 'ethers';
+import type { ChainlinkRegistry } from '@typechained';
+import { FeedConfig, pairKey } from './feeds-config';
+
+export type DriftIssue =
+  // The config has a feed for the pair, but the registry doesn't
+  | { type: 'missing'; base: string; quote: string; expectedFeed: string }
+  // The registry has a feed for the pair, but the config says it shouldn't have one (or doesn't mention the pair)
+  | { type: 'extra'; base: string; quote: string; actualFeed: string }
+  // Both have a feed for the pair, but they are different
+  | { type: 'mismatched'; base: string; quote: string; expectedFeed: string; actualFeed: string }
+  // The feed is correct, but the registry detected it as a proxy when it isn't one, or the other way around
+  | { type: 'wrong-proxy-detection'; base: string; quote: string; feed: string; expectedIsProxy: boolean; actualIsProxy: boolean };
+
+export type DriftReport = { registry: string; checkedAt: string; ok: boolean; checkedPairs: number; issues: DriftIssue[] };
+
+/**
+ * Compares every configured pair against the feed assigned in the registry, and also reports pairs that are assigned in
+ * the registry but not mentioned in the config. Pairs that are only served by inverting another pair's feed are
+ * considered as not having a feed assigned
+ */
+export async function checkDrift(
+  registry: ChainlinkRegistry,
+  feeds: FeedConfig[],
+  isProxy: (feed: string) => Promise<boolean>,
+  pageSize: number = 100
+): Promise<DriftReport> {
+  const issues: DriftIssue[] = [];
+  for (const { base, quote, feed } of feeds) {
+    const assigned = await registry.getAssignedFeed(base, quote);
+    const actualFeed = assigned.isInverted ? constants.AddressZero : assigned.feed;
+    if (feed === null) {
+      if (actualFeed !== constants.AddressZero) issues.push({ type: 'extra', base, quote, actualFeed });
+    } else if (actualFeed === constants.AddressZero) {
+      issues.push({ type: 'missing', base, quote, expectedFeed: feed });
+    } else if (actualFeed !== feed) {
+      issues.push({ type: 'mismatched', base, quote, expectedFeed: feed, actualFeed });
+    } else {
+      const expectedIsProxy = await isProxy(feed);
+      if (expectedIsProxy !== assigned.isProxy) {
+        issues.push({ type: 'wrong-proxy-detection', base, quote, feed, expectedIsProxy, actualIsProxy: assigned.isProxy });
+      }
+    }
+  }
+
+  const configured = new Set(feeds.map(pairKey));
+  const total = (await registry.assignedPairsCount()).toNumber();
+  for (let offset = 0; offset < total; offset += pageSize) {
+    for (const { base, quote, feed, isInverted } of await registry.getAssignedPairs(offset, pageSize)) {
+      if (!isInverted && !configured.has(pairKey({ base, quote }))) {
+        issues.push({ type: 'extra', base, quote, actualFeed: feed });
+      }
+    }
+  }
+
+  return { registry: registry.address, checkedAt: new Date().toISOString(), ok: issues.length === 0, checkedPairs: feeds.length, issues };
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { constants, utils } from 'ethers';
+import type { ChainlinkRegistry } from '@typechained';
+
+export const FEEDS_CONFIG_DIR = 'config/feeds';
+const FEEDS_CONFIG_EXTENSIONS = ['json', 'yaml', 'yml'];
+
+// A pair, and the feed that should be assigned to it. A null feed means that the pair should not have a feed
+export type FeedConfig = { base: string; quote: string; feed: string | null };
+
+export type FeedChange = { base: string; quote: string; currentFeed: string; desiredFeed: string };
+
+export type FeedsPlan = { toAssign: FeedChange[]; toRemove: FeedChange[] };
+
+export type PlannedTransaction = { description: string; to: string; data: string };
+
+export function getFeedsConfigPath(network: string, dir: string = FEEDS_CONFIG_DIR): string {
+  for (const extension of FEEDS_CONFIG_EXTENSIONS) {
+    const configPath = path.join(dir, `${network}.${extension}`);
+    if (fs.existsSync(configPath)) return configPath;
+  }
+  throw new Error(`No feeds config found for ${network}. Expected one of ${FEEDS_CONFIG_EXTENSIONS.map((ext) => `${network}.${ext}`)}`);
+}
+
+export function parseFeedsConfig(content: string, format: 'json' | 'yaml'): FeedConfig[] {
+  const parsed = format === 'json' ? JSON.parse(content) : YAML.parse(content);
+  if (!Array.isArray(parsed?.feeds)) throw new Error('Feeds config must have a "feeds" list');
+  const seen = new Set<string>();
+  return parsed.feeds.map((entry: any, i: number) => {
+    if (!utils.isAddress(entry?.base) || !utils.isAddress(entry?.quote)) throw new Error(`Entry #${i} must have a valid base and quote`);
+    const feed = entry.feed ?? null;
+    if (feed !== null && !utils.isAddress(feed)) throw new Error(`Entry #${i} has an invalid feed`);
+    const config: FeedConfig = {
+      base: utils.getAddress(entry.base),
+      quote: utils.getAddress(entry.quote),
+      feed: feed === null || feed === constants.AddressZero ? null : utils.getAddress(feed),
+    };
+    const key = pairKey(config);
+    if (seen.has(key)) throw new Error(`Pair ${key} is configured more than once`);
+    seen.add(key);
+    return config;
+  });
+}
+
+export function loadFeedsConfig(configPath: string): FeedConfig[] {
+  const content = fs.readFileSync(configPath, 'utf-8');
+  return parseFeedsConfig(content, configPath.endsWith('.json') ? 'json' : 'yaml');
+}
+
+/**
+ * Compares the given config against the feeds that are currently assigned in the registry. Pairs that are only
+ * served by inverting another pair's feed are considered as not having a feed assigned
+ */
+export async function planFeedChanges(registry: ChainlinkRegistry, feeds: FeedConfig[]): Promise<FeedsPlan> {
+  const plan: FeedsPlan = { toAssign: [], toRemove: [] };
+  for (const { base, quote, feed } of feeds) {
+    const assigned = await registry.getAssignedFeed(base, quote);
+    const currentFeed = assigned.isInverted ? constants.AddressZero : assigned.feed;
+    const desiredFeed = feed ?? constants.AddressZero;
+    if (currentFeed === desiredFeed) continue;
+    const change = { base, quote, currentFeed, desiredFeed };
+    if (feed === null) plan.toRemove.push(change);
+    else plan.toAssign.push(change);
+  }
+  return plan;
+}
+
+/**
+ * Builds the transactions needed to execute the plan, so that they can be executed by an admin. Removals are assigned
+ * the zero address, since `removeFeeds` is reserved for emergencies. When the registry has an assignment delay, feeds
+ * are queued instead, and `executeQueuedFeeds` will need to be called with the same feeds once the delay has passed
+ */
+export async function buildPlanTransactions(registry: ChainlinkRegistry, { toAssign, toRemove }: FeedsPlan): Promise<PlannedTransaction[]> {
+  const feeds = [...toAssign, ...toRemove].map(({ base, quote, desiredFeed }) => ({ base, quote, feed: desiredFeed }));
+  if (feeds.length === 0) return [];
+  const isDelayed = (await registry.assignmentDelay()) > 0;
+  const method = isDelayed ? 'queueFeeds' : 'assignFeeds';
+  return [
+    {
+      description: `${method} (${toAssign.length} assignments, ${toRemove.length} removals)${
+        isDelayed ? ', needs executeQueuedFeeds once the assignment delay passes' : ''
+      }`,
+      to: registry.address,
+      data: isDelayed
+        ? registry.interface.encodeFunctionData('queueFeeds', [feeds])
+        : registry.interface.encodeFunctionData('assignFeeds', [feeds]),
+    },
+  ];
+}
+
+export function pairKey({ base, quote }: { base: string; quote: string }) {
+  return `${base}/${quote}`;
+}
@@ -0,0 +1,97 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { ChainlinkRegistry, ChainlinkRegistryReader } from '@typechained';
+
+export type PairState = {
+  base: string;
+  quote: string;
+  feed: string;
+  heartbeat: number;
+  deviationThreshold: number;
+  medianMinSources: number;
+  servesInverse: boolean;
+  fallbackFeeds: string[];
+};
+
+export type RegistryConfig = {
+  intermediates: string[];
+  // Sorted, since the registry doesn't keep them in any particular order
+  validationOverrides: string[];
+  assignmentDelay: number;
+};
+
+export type RegistryDeployment = { reader: ChainlinkRegistryReader; registry: ChainlinkRegistry };
+
+export async function getRegistryDeployment(hre: HardhatRuntimeEnvironment, readerAddress: string): Promise<RegistryDeployment> {
+  const reader = (await hre.ethers.getContractAt('ChainlinkRegistryReader', readerAddress)) as ChainlinkRegistryReader;
+  const registry = (await hre.ethers.getContractAt('ChainlinkRegistry', await reader.registry())) as ChainlinkRegistry;
+  return { reader, registry };
+}
+
+export async function exportConfig({ reader }: RegistryDeployment): Promise<RegistryConfig> {
+  const { intermediates, validationOverrides, assignmentDelay } = await reader.exportConfig();
+  return { intermediates, validationOverrides: [...validationOverrides].sort(), assignmentDelay };
+}
+
+export async function exportAll({ reader, registry }: RegistryDeployment, pageSize: number): Promise<PairState[]> {
+  const total = (await registry.assignedPairsCount()).toNumber();
+  const pairs: PairState[] = [];
+  for (let offset = 0; offset < total; offset += pageSize) {
+    const page = await reader.exportPairs(offset, pageSize);
+    pairs.push(
+      ...page.map(({ base, quote, feed, heartbeat, deviationThreshold, medianMinSources, servesInverse, fallbackFeeds }) => ({
+        base,
+        quote,
+        feed,
+        heartbeat,
+        deviationThreshold,
+        medianMinSources,
+        servesInverse,
+        fallbackFeeds,
+      }))
+    );
+  }
+  return pairs;
+}
+
+export function diffConfig(expected: RegistryConfig, actual: RegistryConfig): string[] {
+  const differences: string[] = [];
+  for (const key of Object.keys(expected) as (keyof RegistryConfig)[]) {
+    if (JSON.stringify(expected[key]) !== JSON.stringify(actual[key])) {
+      differences.push(`${key} was expected to be ${JSON.stringify(expected[key])}, but it is ${JSON.stringify(actual[key])}`);
+    }
+  }
+  return differences;
+}
+
+export function diffPairs(expected: PairState[], actual: PairState[]): string[] {
+  const key = ({ base, quote }: PairState) => `${base}/${quote}`.toLowerCase();
+  const actualByKey = new Map(actual.map((pair) => [key(pair), pair]));
+  const differences: string[] = [];
+  for (const pair of expected) {
+    const other = actualByKey.get(key(pair));
+    if (!other) {
+      differences.push(`${key(pair)} is missing`);
+    } else if (JSON.stringify(pair) !== JSON.stringify(other)) {
+      differences.push(`${key(pair)} was expected to be ${JSON.stringify(pair)}, but it is ${JSON.stringify(other)}`);
+    }
+    actualByKey.delete(key(pair));
+  }
+  for (const unexpected of actualByKey.keys()) {
+    differences.push(`${unexpected} is not present in the source registry`);
+  }
+  return differences;
+}
+
+/**
+ * Exports the global configuration and all the assigned pairs of both registries, and describes every difference between them
+ * @returns The differences, or an empty list if both registries are identical
+ */
+export async function compareRegistries(source: RegistryDeployment, target: RegistryDeployment, pageSize: number): Promise<string[]> {
+  const [sourceConfig, targetConfig, sourcePairs, targetPairs] = await Promise.all([
+    exportConfig(source),
+    exportConfig(target),
+    exportAll(source, pageSize),
+    exportAll(target, pageSize),
+  ]);
+  return [...diffConfig(sourceConfig, targetConfig), ...diffPairs(sourcePairs, targetPairs)];
+}
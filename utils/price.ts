@@ -0,0 +1,79 @@
+import { utils } from 'ethers';
+import { Denomination, Denominations } from '../sdk/denominations';
+import type { RegistryClient } from '../sdk/registry-client';
+
+export type PriceReport = {
+  base: string;
+  quote: string;
+  description: string;
+  // The answer, scaled by the feed's decimals
+  value: string;
+  answer: string;
+  decimals: number;
+  roundId: string;
+  updatedAt: number;
+  // Seconds since the answer was updated
+  age: number;
+  // The feed that was assigned to the pair, and the aggregator that actually reports the answer
+  feed: string | null;
+  aggregator: string;
+  // Null when the registry can't tell how the feed was assigned (like the one operated by chainlink)
+  isProxy: boolean | null;
+};
+
+/**
+ * Resolves an asset given as a denomination symbol (like ETH or USD) or as an address
+ */
+export function resolveAsset(asset: string): string {
+  if (utils.isAddress(asset)) return utils.getAddress(asset);
+  const symbol = asset.toUpperCase();
+  if (!Object.keys(Denominations).includes(symbol)) throw new Error(`Unknown asset ${asset}, please use its address`);
+  return Denominations[symbol as Denomination];
+}
+
+/**
+ * Reads the latest price of the given pair, together with the feed that reports it
+ * @param now The current timestamp, in seconds. Used to calculate the age of the answer
+ */
+export async function readPrice(client: RegistryClient, base: string, quote: string, now: number): Promise<PriceReport> {
+  const [price, description, aggregator, assignedFeed] = await Promise.all([
+    client.getPrice(base, quote),
+    client.getDescription(base, quote),
+    client.getFeed(base, quote),
+    client.registry.getAssignedFeed(base, quote).catch(() => undefined),
+  ]);
+  return {
+    base,
+    quote,
+    description,
+    value: price.value,
+    answer: price.answer.toString(),
+    decimals: price.decimals,
+    roundId: price.roundId.toString(),
+    updatedAt: price.updatedAt,
+    age: Math.max(now - price.updatedAt, 0),
+    feed: assignedFeed?.feed ?? null,
+    aggregator,
+    isProxy: assignedFeed?.isProxy ?? null,
+  };
+}
+
+/**
+ * Formats an amount of seconds as something like '1d 2h 3m 4s'
+ */
+export function formatAge(seconds: number): string {
+  const units: [string, number][] = [
+    ['d', 86400],
+    ['h', 3600],
+    ['m', 60],
+    ['s', 1],
+  ];
+  const parts: string[] = [];
+  let remaining = seconds;
+  for (const [unit, size] of units) {
+    const amount = Math.floor(remaining / size);
+    remaining -= amount * size;
+    if (amount > 0 || (unit === 's' && parts.length === 0)) parts.push(`${amount}${unit}`);
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,51 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { ChainlinkRegistry } from '@typechained';
+import { buildPlanTransactions, FeedConfig, planFeedChanges } from './feeds-config';
+
+export const REGISTRY_ROLES = ['SUPER_ADMIN_ROLE', 'ADMIN_ROLE', 'EMERGENCY_ROLE'] as const;
+
+export type RegistryRole = typeof REGISTRY_ROLES[number];
+
+export async function getRegistry(hre: HardhatRuntimeEnvironment, address?: string) {
+  // On ethereum, the deployment points to the registry operated by chainlink, which can't be managed by us
+  if (!address && hre.deployments.getNetworkName() === 'ethereum') throw new Error('The registry on ethereum is operated by chainlink');
+  const registryAddress = address ?? (await hre.deployments.get('ChainlinkFeedRegistry')).address;
+  return (await hre.ethers.getContractAt('ChainlinkRegistry', registryAddress)) as ChainlinkRegistry;
+}
+
+/**
+ * Sends the transactions needed to make the registry match the given config, using the registry's signer. Pairs that already have
+ * the configured feed are not part of the plan, so seeding the same config twice has no effect
+ * @returns The descriptions of the transactions that were sent
+ */
+export async function seedFeeds(registry: ChainlinkRegistry, config: FeedConfig[]): Promise<string[]> {
+  const plan = await planFeedChanges(registry, config);
+  const sent: string[] = [];
+  for (const { description, to, data } of await buildPlanTransactions(registry, plan)) {
+    const tx = await registry.signer.sendTransaction({ to, data });
+    await tx.wait();
+    sent.push(`${description} (${tx.hash})`);
+  }
+  return sent;
+}
+
+/**
+ * Grants every role that the registry's signer holds to the given account, and then renounces them. All roles are granted
+ * before renouncing any, so that a failed grant doesn't leave a role without holders
+ * @returns The roles that were renounced
+ */
+export async function handOverRoles(registry: ChainlinkRegistry, to: string): Promise<RegistryRole[]> {
+  const from = await registry.signer.getAddress();
+  const held: { role: RegistryRole; id: string }[] = [];
+  for (const role of REGISTRY_ROLES) {
+    const id = await registry[role]();
+    if (await registry.hasRole(id, from)) held.push({ role, id });
+  }
+  for (const { id } of held) {
+    if (!(await registry.hasRole(id, to))) await (await registry.grantRole(id, to)).wait();
+  }
+  for (const { id } of held) {
+    await (await registry.renounceRole(id, from)).wait();
+  }
+  return held.map(({ role }) => role);
+}
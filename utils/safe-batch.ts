@@ -0,0 +1,106 @@
+import { BigNumber, BigNumberish, utils } from 'ethers';
+import type { ChainlinkRegistry } from '@typechained';
+import { buildPlanTransactions, FeedsPlan, PlannedTransaction } from './feeds-config';
+import { REGISTRY_ROLES, RegistryRole } from './registry';
+
+export type SendDust = { recipient: string; token: string; amount: BigNumberish };
+
+export type RoleGrant = { role: RegistryRole; account: string };
+
+// The format used by the Safe Transaction Builder to import and export batches
+export type SafeBatchFile = {
+  version: '1.0';
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: { to: string; value: string; data: string; contractMethod: null; contractInputsValues: null }[];
+};
+
+/**
+ * Builds one call per pair in the plan, so that the changes can be split in many batches without breaking a
+ * single assignment in two
+ */
+export async function buildFeedCalls(registry: ChainlinkRegistry, { toAssign, toRemove }: FeedsPlan): Promise<PlannedTransaction[]> {
+  const calls: PlannedTransaction[] = [];
+  for (const change of toAssign) calls.push(...(await buildPlanTransactions(registry, { toAssign: [change], toRemove: [] })));
+  for (const change of toRemove) calls.push(...(await buildPlanTransactions(registry, { toAssign: [], toRemove: [change] })));
+  return calls;
+}
+
+export function buildSendDustCall(registry: ChainlinkRegistry, { recipient, token, amount }: SendDust): PlannedTransaction {
+  return {
+    description: `sendDust (${amount.toString()} of ${token} to ${recipient})`,
+    to: registry.address,
+    data: registry.interface.encodeFunctionData('sendDust', [recipient, token, amount]),
+  };
+}
+
+export function buildGrantRoleCall(registry: ChainlinkRegistry, { role, account }: RoleGrant): PlannedTransaction {
+  if (!REGISTRY_ROLES.includes(role)) throw new Error(`Unknown role ${role}. Expected one of ${REGISTRY_ROLES}`);
+  return {
+    description: `grantRole (${role} to ${account})`,
+    to: registry.address,
+    data: registry.interface.encodeFunctionData('grantRole', [utils.id(role), account]),
+  };
+}
+
+/**
+ * Splits the calls in chunks, so that the gas used by each chunk doesn't go over the given limit. Calls keep their
+ * order, and a call that doesn't fit in a chunk on its own will make this function throw
+ */
+export async function chunkByGas(
+  calls: PlannedTransaction[],
+  gasLimit: BigNumberish,
+  estimateGas: (call: PlannedTransaction) => Promise<BigNumberish>
+): Promise<PlannedTransaction[][]> {
+  const chunks: PlannedTransaction[][] = [];
+  let current: PlannedTransaction[] = [];
+  let currentGas = BigNumber.from(0);
+  for (const call of calls) {
+    const gas = BigNumber.from(await estimateGas(call));
+    if (gas.gt(gasLimit)) throw new Error(`${call.description} needs ${gas} gas, which is over the limit of ${gasLimit}`);
+    if (currentGas.add(gas).gt(gasLimit)) {
+      chunks.push(current);
+      current = [];
+      currentGas = BigNumber.from(0);
+    }
+    current.push(call);
+    currentGas = currentGas.add(gas);
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+export function toSafeBatchFile({
+  chainId,
+  safe,
+  name,
+  calls,
+  createdAt,
+}: {
+  chainId: number;
+  safe: string;
+  name: string;
+  calls: PlannedTransaction[];
+  createdAt: number;
+}): SafeBatchFile {
+  return {
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt,
+    meta: {
+      name,
+      description: calls.map(({ description }) => description).join('\n'),
+      txBuilderVersion: '1.13.3',
+      createdFromSafeAddress: safe,
+      createdFromOwnerAddress: '',
+    },
+    transactions: calls.map(({ to, data }) => ({ to, value: '0', data, contractMethod: null, contractInputsValues: null })),
+  };
+}